@@ -7,6 +7,13 @@ import validateRoutes from "./routes/validate.routes";
 import contactRoutes from "./routes/contact.routes";
 import feedbackRoutes from "./routes/feedback.routes";
 import usageRoute from "./routes/usage.routes";
+import authRoutes from "./routes/auth.routes";
+import historyRoutes from "./routes/history.routes";
+import adminRoutes from "./routes/admin.routes";
+import channelRoutes from "./routes/channel.routes";
+import watchlistRoutes from "./routes/watchlist.routes";
+import savedSearchRoutes from "./routes/savedSearch.routes";
+import { authenticate } from "./middleware/auth.middleware";
 
 import {
   errorHandler,
@@ -38,7 +45,7 @@ app.use(
       }
     },
     credentials: true,
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
     maxAge: 86400, // 24 hours
   })
@@ -57,11 +64,20 @@ app.get('/health', (req, res) => {
   });
 });
 
+// Attach the authenticated user (if any) before any rate limiting
+app.use(authenticate);
+
 // API Routes
+app.use('/api/auth', authRoutes);
+app.use('/api/history', historyRoutes);
+app.use('/api/admin', adminRoutes);
 app.use('/api/usage' , usageRoute)
 app.use('/api/feedback', feedbackRoutes);
 app.use('/api/video', videoRoutes);
 app.use('/api/topics', topicRoutes);
+app.use('/api/channels', channelRoutes);
+app.use('/api/watchlist', watchlistRoutes);
+app.use('/api/saved-searches', savedSearchRoutes);
 app.use('/api', contactRoutes);
 app.use("/api", validateRoutes);
 
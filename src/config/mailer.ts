@@ -0,0 +1,80 @@
+// config/mailer.ts
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { resend, emailConfig } from './resend';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  replyTo?: string;
+}
+
+/**
+ * Delivers emails; returns the provider's message ID
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<string>;
+}
+
+// Sends through Resend
+class ResendTransport implements MailTransport {
+  readonly name = 'resend';
+
+  async send(message: EmailMessage): Promise<string> {
+    const response = await resend.emails.send({
+      from: emailConfig.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      replyTo: message.replyTo,
+    });
+
+    if (response.error) {
+      throw new Error(response.error.message);
+    }
+    return response.data?.id ?? '';
+  }
+}
+
+// Emails kept in memory by LocalTransport; older ones stay on disk only
+const MAX_LOCAL_SENT = 100;
+
+/**
+ * Writes each email to an .html file instead of sending it
+ * Set MAIL_TRANSPORT=local when testing; files go to MAIL_OUTBOX_DIR
+ */
+export class LocalTransport implements MailTransport {
+  readonly name = 'local';
+  // The most recent emails, oldest first
+  readonly sent: Array<EmailMessage & { id: string; file: string }> = [];
+  private count = 0;
+
+  constructor(
+    private outboxDir: string = process.env.MAIL_OUTBOX_DIR ||
+      path.join(os.tmpdir(), 'vidly-outbox'),
+  ) {}
+
+  async send(message: EmailMessage): Promise<string> {
+    const id = `${Date.now()}-${++this.count}`;
+    const file = path.join(this.outboxDir, `${id}.html`);
+
+    await fs.mkdir(this.outboxDir, { recursive: true });
+    await fs.writeFile(
+      file,
+      `<!-- To: ${message.to} | Subject: ${message.subject} -->\n${message.html}`,
+    );
+
+    this.sent.push({ ...message, id, file });
+    if (this.sent.length > MAX_LOCAL_SENT) {
+      this.sent.splice(0, this.sent.length - MAX_LOCAL_SENT);
+    }
+    console.log(`📭 Email to ${message.to} written to ${file}`);
+    return id;
+  }
+}
+
+export const mailer: MailTransport =
+  process.env.MAIL_TRANSPORT === 'local' ? new LocalTransport() : new ResendTransport();
@@ -0,0 +1,109 @@
+// config/plans.ts
+import type { Request } from "express";
+
+// ========================================
+// FEATURE & PLAN REGISTRY
+// Single source of truth for rate limits and usage reporting.
+// To add a tool or change a tier, edit only this file.
+// ========================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const FEATURES = {
+  "comment-analyzer": { displayName: "Comment Analyzer" },
+  "idea-validator": { displayName: "Idea Validator" },
+  "viral-search": { displayName: "Viral Search" },
+  "topic-analyzer": { displayName: "Topic Analyzer" },
+  "topic-search": { displayName: "Topic Search" },
+  "topic-suggestions": { displayName: "Topic Suggestions" },
+  "channel-report": { displayName: "Channel Report" },
+} as const;
+
+export type FeatureName = keyof typeof FEATURES;
+
+// Features whose runs are saved to a user's history
+export const HISTORY_TOOLS = [
+  "comment-analyzer",
+  "idea-validator",
+  "viral-search",
+] as const satisfies readonly FeatureName[];
+
+export type HistoryTool = (typeof HISTORY_TOOLS)[number];
+
+export type PlanName = "free" | "pro" | "team";
+
+export interface FeatureLimit {
+  maxRequests: number;
+  windowMs: number; // in milliseconds
+}
+
+export interface PlanDefinition {
+  displayName: string;
+  limits: Record<FeatureName, FeatureLimit>;
+}
+
+export const PLANS: Record<PlanName, PlanDefinition> = {
+  free: {
+    displayName: "Free",
+    limits: {
+      "comment-analyzer": { maxRequests: 2, windowMs: DAY_MS },
+      "idea-validator": { maxRequests: 2, windowMs: DAY_MS },
+      "viral-search": { maxRequests: 2, windowMs: DAY_MS },
+      "topic-analyzer": { maxRequests: 2, windowMs: DAY_MS },
+      "topic-search": { maxRequests: 2, windowMs: DAY_MS },
+      "topic-suggestions": { maxRequests: 5, windowMs: DAY_MS },
+      "channel-report": { maxRequests: 3, windowMs: DAY_MS },
+    },
+  },
+  pro: {
+    displayName: "Pro",
+    limits: {
+      "comment-analyzer": { maxRequests: 20, windowMs: DAY_MS },
+      "idea-validator": { maxRequests: 20, windowMs: DAY_MS },
+      "viral-search": { maxRequests: 50, windowMs: DAY_MS },
+      "topic-analyzer": { maxRequests: 20, windowMs: DAY_MS },
+      "topic-search": { maxRequests: 50, windowMs: DAY_MS },
+      "topic-suggestions": { maxRequests: 100, windowMs: DAY_MS },
+      "channel-report": { maxRequests: 50, windowMs: DAY_MS },
+    },
+  },
+  team: {
+    displayName: "Team",
+    limits: {
+      "comment-analyzer": { maxRequests: 100, windowMs: DAY_MS },
+      "idea-validator": { maxRequests: 100, windowMs: DAY_MS },
+      "viral-search": { maxRequests: 250, windowMs: DAY_MS },
+      "topic-analyzer": { maxRequests: 100, windowMs: DAY_MS },
+      "topic-search": { maxRequests: 250, windowMs: DAY_MS },
+      "topic-suggestions": { maxRequests: 500, windowMs: DAY_MS },
+      "channel-report": { maxRequests: 250, windowMs: DAY_MS },
+    },
+  },
+};
+
+export const DEFAULT_PLAN: PlanName = "free";
+
+export const FEATURE_NAMES = Object.keys(FEATURES) as FeatureName[];
+
+export const isFeatureName = (name: string): name is FeatureName =>
+  Object.prototype.hasOwnProperty.call(FEATURES, name);
+
+export const isPlanName = (name: string): name is PlanName =>
+  Object.prototype.hasOwnProperty.call(PLANS, name);
+
+/**
+ * Get the plan that applies to the current request
+ * Anonymous users are always on the default plan
+ */
+export const getRequestPlan = (req: Request): PlanName => {
+  const plan = req.user?.plan;
+  return plan && isPlanName(plan) ? plan : DEFAULT_PLAN;
+};
+
+/**
+ * Get the limit of a feature for a plan
+ */
+export const getFeatureLimit = (
+  featureName: FeatureName,
+  plan: PlanName = DEFAULT_PLAN,
+): FeatureLimit => PLANS[plan].limits[featureName];
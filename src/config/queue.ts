@@ -1,17 +1,34 @@
 import { Queue } from "bullmq";
 import { redisConnection } from "./redis";
+import { redisClient } from "./rt-redis";
 import Redis from "ioredis";
+import VideoAnalysis from "../models/VideoAnalysis";
+import { isCancellationRequested } from "../utils/jobCancellation";
+import type { ValidateIdeaInput } from "../schemas/validation.schemas";
 
-export interface VideoAnalysisJobData {
+export interface VideoAnalysisOptions {
+  maxComments?: number;
+  includeReplies?: boolean;
+}
+
+export interface VideoAnalysisJobData extends VideoAnalysisOptions {
   jobId: string;
   videoUrl: string;
   videoId: string;
+  userId?: string; // getUserIdentifier of the submitter
+  reservationId?: string; // Quota slot held for this job
+}
+
+export interface IdeaValidationJobData extends ValidateIdeaInput {
+  jobId: string;
+  userId?: string; // getUserIdentifier of the submitter
+  reservationId?: string; // Quota slot held for this job
 }
 
 export interface VideoAnalysisResult {
   jobId: string;
   videoId: string;
-  status: "pending" | "processing" | "completed" | "failed";
+  status: "pending" | "processing" | "completed" | "failed" | "cancelled";
   summary?: {
     positive: { count: number; percentage: number };
     negative: { count: number; percentage: number };
@@ -118,6 +135,70 @@ videoAnalysisQueue.on("error", (err) => {
   console.error("❌ BullMQ Queue Error:", err.message);
 });
 
+// Create queue for idea validation jobs
+// Progress is recorded as events (utils/jobEvents.ts), not in the job itself
+export const ideaValidationQueue = new Queue<IdeaValidationJobData>(
+  "idea-validation",
+  {
+    connection: redisConnection,
+    defaultJobOptions: {
+      attempts: 1, // A retry would replay the events of the first run
+      removeOnComplete: {
+        age: 86400, // Kept as long as the recorded events
+      },
+      removeOnFail: {
+        age: 86400,
+      },
+    },
+  },
+);
+
+ideaValidationQueue.on("error", (err) => {
+  console.error("❌ BullMQ Queue Error:", err.message);
+});
+
+// Create queue for daily snapshots of watched channels
+// The repeat schedule is registered by workers/snapshot.worker.ts
+export const channelSnapshotQueue = new Queue("channel-snapshots", {
+  connection: redisConnection,
+  defaultJobOptions: {
+    attempts: 3,
+    backoff: {
+      type: "exponential",
+      delay: 60000,
+    },
+    removeOnComplete: {
+      count: 30,
+    },
+    removeOnFail: {
+      count: 30,
+    },
+  },
+});
+
+channelSnapshotQueue.on("error", (err) => {
+  console.error("❌ BullMQ Queue Error:", err.message);
+});
+
+// Create queue for re-running saved searches and emailing new outliers
+// The repeat schedule is registered by workers/savedSearch.worker.ts
+export const savedSearchQueue = new Queue("saved-searches", {
+  connection: redisConnection,
+  defaultJobOptions: {
+    attempts: 1, // A retry would diff against the run that just failed halfway
+    removeOnComplete: {
+      count: 30,
+    },
+    removeOnFail: {
+      count: 30,
+    },
+  },
+});
+
+savedSearchQueue.on("error", (err) => {
+  console.error("❌ BullMQ Queue Error:", err.message);
+});
+
 videoAnalysisQueue.on("waiting", async (job) => {
   // Get the job details properly
   const jobDetails = typeof job === 'object' && job !== null 
@@ -126,15 +207,202 @@ videoAnalysisQueue.on("waiting", async (job) => {
     
   console.log(`⏳ Job ${jobDetails?.id || job} is waiting`);
 });
+// How long a completed analysis can be reused for the same video
+export const ANALYSIS_FRESHNESS_MS =
+  parseInt(process.env.ANALYSIS_FRESHNESS_HOURS || "24", 10) * 60 * 60 * 1000;
+
+// Upsert the analysis record for a job (never throws on DB errors)
+export async function saveAnalysis(
+  data: VideoAnalysisJobData,
+  update: Partial<VideoAnalysisResult> & { completedAt?: Date },
+) {
+  try {
+    await VideoAnalysis.findOneAndUpdate(
+      { jobId: data.jobId },
+      {
+        $set: {
+          videoId: data.videoId,
+          videoUrl: data.videoUrl,
+          ...(data.userId && { userId: data.userId }),
+          options: {
+            maxComments: data.maxComments ?? null,
+            includeReplies: data.includeReplies ?? false,
+          },
+          ...update,
+        },
+      },
+      { upsert: true },
+    );
+  } catch (error: any) {
+    console.error(`⚠️ Failed to persist analysis ${data.jobId}:`, error.message);
+  }
+}
+
+// Only runs with the same comment options produce comparable reports
+function optionsFilter(options: VideoAnalysisOptions) {
+  return {
+    "options.maxComments": options.maxComments ?? null,
+    "options.includeReplies": options.includeReplies ? true : { $ne: true },
+  };
+}
+
+// Find the newest completed analysis of a video inside the freshness window
+export async function findRecentAnalysis(
+  videoId: string,
+  options: VideoAnalysisOptions = {},
+  freshnessMs: number = ANALYSIS_FRESHNESS_MS,
+): Promise<{ jobId: string; completedAt: Date } | null> {
+  try {
+    const recent: any = await VideoAnalysis.findOne({
+      videoId,
+      ...optionsFilter(options),
+      status: "completed",
+      completedAt: { $gte: new Date(Date.now() - freshnessMs) },
+    })
+      .sort({ completedAt: -1 })
+      .lean();
+
+    return recent ? { jobId: recent.jobId, completedAt: recent.completedAt } : null;
+  } catch (error) {
+    console.error("Error looking up recent analysis:", error);
+    return null;
+  }
+}
+
+// Find a job for the same video that is still waiting or running
+export async function findInFlightJob(
+  videoId: string,
+  options: VideoAnalysisOptions = {},
+): Promise<{ jobId: string; status: "pending" | "processing" } | null> {
+  try {
+    const candidates: any[] = await VideoAnalysis.find({
+      videoId,
+      ...optionsFilter(options),
+      status: { $in: ["pending", "processing"] },
+    })
+      .sort({ createdAt: -1 })
+      .limit(5)
+      .lean();
+
+    // Records can outlive their job (e.g. a crashed worker), so confirm with the queue
+    for (const candidate of candidates) {
+      const job = await videoAnalysisQueue.getJob(candidate.jobId);
+      if (!job || (await isCancellationRequested(candidate.jobId))) continue;
+
+      const state = await job.getState();
+      if (state === "active") {
+        return { jobId: candidate.jobId, status: "processing" };
+      }
+      if (state === "waiting" || state === "delayed" || state === "prioritized") {
+        return { jobId: candidate.jobId, status: "pending" };
+      }
+    }
+
+    return null;
+  } catch (error) {
+    console.error("Error looking up in-flight job:", error);
+    return null;
+  }
+}
+
+// A claim only has to cover the gap between a submission missing
+// findInFlightJob and its pending record becoming visible to others
+const ANALYSIS_CLAIM_TTL_SECONDS = 30;
+
+const analysisClaimKey = (videoId: string, options: VideoAnalysisOptions) =>
+  `analysis:claim:${videoId}:${options.maxComments ?? "all"}:${options.includeReplies ? 1 : 0}`;
+
+/**
+ * Atomically claim the run for a video and options
+ * Returns null when this job got the claim, or the jobId of the submission
+ * that claimed it first (fails open on Redis errors)
+ */
+export async function claimAnalysis(
+  videoId: string,
+  options: VideoAnalysisOptions,
+  jobId: string,
+): Promise<string | null> {
+  try {
+    const key = analysisClaimKey(videoId, options);
+    const claimed = await redisClient.set(
+      key,
+      jobId,
+      "EX",
+      ANALYSIS_CLAIM_TTL_SECONDS,
+      "NX",
+    );
+    if (claimed === "OK") return null;
+
+    const holder = await redisClient.get(key);
+    if (!holder || (await isCancellationRequested(holder))) return null;
+    return holder;
+  } catch (error) {
+    console.error("Error claiming analysis:", error);
+    return null;
+  }
+}
+
+// Give up a claim whose job never got queued
+export async function releaseAnalysisClaim(
+  videoId: string,
+  options: VideoAnalysisOptions,
+  jobId: string,
+): Promise<void> {
+  try {
+    const key = analysisClaimKey(videoId, options);
+    if ((await redisClient.get(key)) === jobId) {
+      await redisClient.del(key);
+    }
+  } catch (error) {
+    console.error("Error releasing analysis claim:", error);
+  }
+}
+
+// Map a persisted analysis document to the API result shape
+function toAnalysisResult(doc: any): VideoAnalysisResult {
+  return {
+    jobId: doc.jobId,
+    videoId: doc.videoId,
+    status: doc.status,
+    summary: doc.summary,
+    thingsLoved: doc.thingsLoved,
+    improvements: doc.improvements,
+    emotions: doc.emotions,
+    patterns: doc.patterns,
+    wantMore: doc.wantMore,
+    totalProcessed: doc.totalProcessed ?? undefined,
+    hasTranscript: doc.hasTranscript ?? undefined,
+    processingTime: doc.processingTime ?? undefined,
+    error: doc.error ?? undefined,
+  };
+}
+
 // Helper function to get job status
+// Finished reports are read from MongoDB so they survive queue cleanup and
+// Redis restarts; the queue is only consulted for jobs still in flight.
 export async function getJobStatus(
   jobId: string,
 ): Promise<VideoAnalysisResult | null> {
+  let stored: any = null;
+
+  try {
+    stored = await VideoAnalysis.findOne({ jobId }).lean();
+  } catch (error) {
+    console.error("Error reading analysis from MongoDB:", error);
+  }
+
+  if (
+    stored &&
+    ["completed", "failed", "cancelled"].includes(stored.status)
+  ) {
+    return toAnalysisResult(stored);
+  }
+
   try {
     const job = await videoAnalysisQueue.getJob(jobId);
 
     if (!job) {
-      return null;
+      return stored ? toAnalysisResult(stored) : null;
     }
 
     const state = await job.getState();
@@ -163,6 +431,6 @@ export async function getJobStatus(
     };
   } catch (error) {
     console.error("Error fetching job status:", error);
-    return null;
+    return stored ? toAnalysisResult(stored) : null;
   }
 }
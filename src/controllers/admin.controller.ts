@@ -0,0 +1,82 @@
+import type { Request, Response } from 'express';
+import { getAllCaches, getCache } from '../utils/redisCache';
+import { youtubeData } from '../services/youtube-data.service';
+
+export const adminController = {
+  /**
+   * GET /api/admin/cache - Entry counts of every cache
+   */
+  async getCacheStats(req: Request, res: Response): Promise<void> {
+    try {
+      const stats = await Promise.all(getAllCaches().map((cache) => cache.stats()));
+
+      res.status(200).json({
+        success: true,
+        data: stats,
+      });
+    } catch (error) {
+      console.error('Cache stats error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch cache stats',
+      });
+    }
+  },
+
+  /**
+   * DELETE /api/admin/cache/:namespace? - Purge one cache, or all of them
+   */
+  async purgeCache(req: Request, res: Response): Promise<void> {
+    try {
+      const namespace = req.params.namespace as string | undefined;
+      const caches = namespace ? [getCache(namespace)] : getAllCaches();
+
+      if (caches.some((cache) => !cache)) {
+        res.status(404).json({
+          success: false,
+          message: `Unknown cache: ${namespace}`,
+        });
+        return;
+      }
+
+      const purged: Record<string, number> = {};
+      for (const cache of caches) {
+        purged[cache!.namespace] = await cache!.purge();
+      }
+
+      console.log('🧹 Cache purged:', purged);
+
+      res.status(200).json({
+        success: true,
+        message: 'Cache purged',
+        purged,
+      });
+    } catch (error) {
+      console.error('Cache purge error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to purge cache',
+      });
+    }
+  },
+
+  /**
+   * GET /api/admin/youtube-quota - YouTube Data API units used today per key
+   */
+  async getYouTubeQuota(req: Request, res: Response): Promise<void> {
+    try {
+      const usage = await youtubeData.getQuotaUsage();
+
+      res.status(200).json({
+        success: true,
+        data: usage,
+      });
+    } catch (error) {
+      console.error('YouTube quota error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch YouTube quota usage',
+      });
+    }
+  },
+};
@@ -0,0 +1,114 @@
+import type { Request, Response } from 'express';
+import { authService } from '../services/auth.service';
+import { signupSchema, loginSchema } from '../schemas/validation.schemas';
+
+export const authController = {
+  /**
+   * POST /api/auth/signup
+   */
+  async signup(req: Request, res: Response): Promise<void> {
+    try {
+      const parsed = signupSchema.shape.body.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: parsed.error.issues.map((issue) => issue.message),
+        });
+        return;
+      }
+
+      const result = await authService.signup(parsed.data);
+
+      if (!result.success) {
+        res.status(result.statusCode || 500).json({
+          success: false,
+          message: result.error || 'Failed to create account',
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Account created successfully',
+        token: result.token,
+        user: result.user,
+      });
+    } catch (error) {
+      console.error('Signup controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'An unexpected error occurred. Please try again later.',
+      });
+    }
+  },
+
+  /**
+   * POST /api/auth/login
+   */
+  async login(req: Request, res: Response): Promise<void> {
+    try {
+      const parsed = loginSchema.shape.body.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: parsed.error.issues.map((issue) => issue.message),
+        });
+        return;
+      }
+
+      const result = await authService.login(parsed.data);
+
+      if (!result.success) {
+        res.status(result.statusCode || 500).json({
+          success: false,
+          message: result.error || 'Failed to log in',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        token: result.token,
+        user: result.user,
+      });
+    } catch (error) {
+      console.error('Login controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'An unexpected error occurred. Please try again later.',
+      });
+    }
+  },
+
+  /**
+   * GET /api/auth/me
+   */
+  async me(req: Request, res: Response): Promise<void> {
+    try {
+      const user = await authService.getUserById(req.user!.id);
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'Account not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        user,
+      });
+    } catch (error) {
+      console.error('Get account controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'An unexpected error occurred. Please try again later.',
+      });
+    }
+  },
+};
@@ -0,0 +1,54 @@
+import type { Request, Response } from 'express';
+import { channelService } from '../services/channel.service';
+import { channelReportSchema } from '../schemas/validation.schemas';
+import { YouTubeQuotaExceededError } from '../services/youtube-data.service';
+
+export const channelController = {
+  /**
+   * GET /api/channels/:channelIdOrHandle/report
+   */
+  async getReport(req: Request, res: Response): Promise<void> {
+    try {
+      const parsed = channelReportSchema.shape.params.safeParse(req.params);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: parsed.error.issues.map((issue) => issue.message),
+        });
+        return;
+      }
+
+      const report = await channelService.getReport(parsed.data.channelIdOrHandle);
+
+      if (!report) {
+        res.status(404).json({
+          success: false,
+          message: 'Channel not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: report,
+      });
+    } catch (error: any) {
+      console.error('Channel report error:', error);
+
+      if (error instanceof YouTubeQuotaExceededError) {
+        res.status(503).json({
+          success: false,
+          message: 'YouTube data is temporarily unavailable. Please try again later.',
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Failed to build channel report',
+      });
+    }
+  },
+};
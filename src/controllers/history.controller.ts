@@ -0,0 +1,43 @@
+import type { Request, Response } from 'express';
+import { historyService } from '../services/history.service';
+import { historyQuerySchema } from '../schemas/validation.schemas';
+import { getUserIdentifier } from '../utils/getUserIdentifier';
+
+export const historyController = {
+  /**
+   * GET /api/history?tool=&page=&limit=
+   */
+  async getHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const parsed = historyQuerySchema.shape.query.safeParse(req.query);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: parsed.error.issues.map((issue) => issue.message),
+        });
+        return;
+      }
+
+      const { tool, page, limit } = parsed.data;
+      const history = await historyService.list(getUserIdentifier(req), {
+        tool,
+        page,
+        limit,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: history.entries,
+        pagination: history.pagination,
+      });
+    } catch (error) {
+      console.error('History controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch history',
+      });
+    }
+  },
+};
@@ -0,0 +1,168 @@
+import type { Request, Response } from 'express';
+import { savedSearchService } from '../services/saved-search.service';
+import {
+  savedSearchCreateSchema,
+  savedSearchUpdateSchema,
+} from '../schemas/validation.schemas';
+import { parseSearchFilters } from '../utils/searchFilters';
+
+export const savedSearchController = {
+  /**
+   * GET /api/saved-searches
+   */
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const searches = await savedSearchService.list(req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        count: searches.length,
+        data: searches,
+      });
+    } catch (error) {
+      console.error('Saved search controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch saved searches',
+      });
+    }
+  },
+
+  /**
+   * POST /api/saved-searches
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const parsed = savedSearchCreateSchema.shape.body.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: parsed.error.issues.map((issue) => issue.message),
+        });
+        return;
+      }
+
+      const filters = parseSearchFilters(parsed.data.filters);
+      if (typeof filters === 'string') {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: [filters],
+        });
+        return;
+      }
+
+      const result = await savedSearchService.create(req.user!.id, {
+        ...parsed.data,
+        filters,
+      });
+
+      if (!result.success) {
+        res.status(result.statusCode || 500).json({
+          success: false,
+          message: result.error || 'Failed to save search',
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Search saved',
+        data: result.data,
+      });
+    } catch (error) {
+      console.error('Saved search controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to save search',
+      });
+    }
+  },
+
+  /**
+   * PATCH /api/saved-searches/:id
+   */
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      const parsed = savedSearchUpdateSchema.safeParse({
+        params: req.params,
+        body: req.body ?? {},
+      });
+
+      if (!parsed.success) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: parsed.error.issues.map((issue) => issue.message),
+        });
+        return;
+      }
+
+      const search = await savedSearchService.update(
+        req.user!.id,
+        parsed.data.params.id,
+        parsed.data.body,
+      );
+
+      if (!search) {
+        res.status(404).json({
+          success: false,
+          message: 'Saved search not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: search,
+      });
+    } catch (error) {
+      console.error('Saved search controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update saved search',
+      });
+    }
+  },
+
+  /**
+   * DELETE /api/saved-searches/:id
+   */
+  async remove(req: Request, res: Response): Promise<void> {
+    try {
+      const parsed = savedSearchUpdateSchema.shape.params.safeParse(req.params);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: parsed.error.issues.map((issue) => issue.message),
+        });
+        return;
+      }
+
+      const removed = await savedSearchService.remove(req.user!.id, parsed.data.id);
+
+      if (!removed) {
+        res.status(404).json({
+          success: false,
+          message: 'Saved search not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Saved search deleted',
+      });
+    } catch (error) {
+      console.error('Saved search controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to delete saved search',
+      });
+    }
+  },
+};
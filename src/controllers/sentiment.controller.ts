@@ -1,12 +1,46 @@
 import type { Request, Response } from "express";
 import { v4 as uuidv4 } from "uuid";
-import { videoAnalysisQueue, getJobStatus } from "../config/queue";
+import {
+  videoAnalysisQueue,
+  getJobStatus,
+  saveAnalysis,
+  findRecentAnalysis,
+  findInFlightJob,
+  claimAnalysis,
+  releaseAnalysisClaim,
+} from "../config/queue";
+import type { VideoAnalysisOptions } from "../config/queue";
 import youtubeService from "../services/youtube.service";
+import {
+  releaseRequestQuota,
+  deferRequestQuota,
+} from "../middleware/featureRateLimiter";
+import { analyzeVideoSchema } from "../schemas/validation.schemas";
+import { socketService } from "../services/socket.service";
+import { getUserIdentifier } from "../utils/getUserIdentifier";
+import { requestCancellation } from "../utils/jobCancellation";
+import { releaseQuota } from "../utils/quotaReservation";
+import { historyService } from "../services/history.service";
+
+// Every submission gets a history entry pointing at the report it resolved to
+const recordAnalysisHistory = (
+  req: Request,
+  jobId: string,
+  videoUrl: string,
+  options: VideoAnalysisOptions,
+) =>
+  historyService.record({
+    userId: getUserIdentifier(req),
+    tool: "comment-analyzer",
+    inputs: { videoUrl, options },
+    resultType: "video-analysis",
+    resultId: jobId,
+  });
 
 // POST /api/video/analyze - Submit video for analysis
 export async function analyzeVideo(req: Request, res: Response) {
   try {
-    const { videoUrl } = req.body;
+    const { videoUrl, force } = req.body;
 
     // Validation
     if (!videoUrl) {
@@ -25,28 +59,100 @@ export async function analyzeVideo(req: Request, res: Response) {
       });
     }
 
-    // Generate unique job ID
+    // Validate analysis options (comment budget, replies)
+    const optionsValidation =
+      analyzeVideoSchema.shape.body.shape.options.safeParse(req.body.options);
+    if (!optionsValidation.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid analysis options",
+        details: optionsValidation.error.issues.map((err) => ({
+          field: ["options", ...err.path].join("."),
+          message: err.message,
+        })),
+      });
+    }
+    const options: VideoAnalysisOptions = optionsValidation.data || {};
+
+    // Reuse a fresh report unless the user explicitly asks for a new run
+    if (force !== true) {
+      const recent = await findRecentAnalysis(videoId, options);
+      if (recent) {
+        await releaseRequestQuota(res);
+        await recordAnalysisHistory(req, recent.jobId, videoUrl, options);
+        return res.status(200).json({
+          success: true,
+          message: "Recent analysis found for this video",
+          data: {
+            jobId: recent.jobId,
+            videoId,
+            status: "completed",
+            reused: true,
+            completedAt: recent.completedAt,
+          },
+        });
+      }
+    }
+
+    // Attach duplicate submissions to the job that is already running,
+    // or to one a simultaneous submission is about to queue
     const jobId = uuidv4();
+    let inFlight = await findInFlightJob(videoId, options);
+    if (!inFlight) {
+      const claimedBy = await claimAnalysis(videoId, options, jobId);
+      if (claimedBy) inFlight = { jobId: claimedBy, status: "pending" };
+    }
+    if (inFlight) {
+      await releaseRequestQuota(res);
+      await recordAnalysisHistory(req, inFlight.jobId, videoUrl, options);
+      return res.status(202).json({
+        success: true,
+        message: "Video analysis already in progress",
+        data: {
+          jobId: inFlight.jobId,
+          videoId,
+          status: inFlight.status,
+          reused: true,
+        },
+      });
+    }
+
+    const jobData = {
+      jobId,
+      videoUrl,
+      videoId,
+      maxComments: options.maxComments,
+      includeReplies: options.includeReplies,
+      userId: getUserIdentifier(req),
+      // The worker commits or releases the quota slot once the job settles
+      reservationId: deferRequestQuota(res),
+    };
+
+    // Record the pending job so duplicate submissions can find it
+    await saveAnalysis(jobData, { status: "pending" });
 
     // Add job to queue
-    await videoAnalysisQueue.add(
-      "analyze-video",
-      {
-        jobId,
-        videoUrl,
-        videoId,
-      },
-      {
-        jobId,
-        attempts: 1, // ✅ Only try once - don't retry user errors
-        removeOnComplete: {
-          age: 3600, // Remove after 1 hour
+    try {
+      await videoAnalysisQueue.add(
+        "analyze-video",
+        jobData,
+        {
+          jobId,
+          attempts: 1, // ✅ Only try once - don't retry user errors
+          removeOnComplete: {
+            age: 3600, // Remove after 1 hour (report is persisted in MongoDB)
+          },
+          removeOnFail: {
+            age: 86400, // Keep failed for 24 hours for debugging
+          },
         },
-        removeOnFail: {
-          age: 86400, // Keep failed for 24 hours for debugging
-        },
-      },
-    );
+      );
+    } catch (queueError) {
+      await releaseAnalysisClaim(videoId, options, jobId);
+      throw queueError;
+    }
+
+    await recordAnalysisHistory(req, jobId, videoUrl, options);
 
     // Return job ID immediately
     return res.status(202).json({
@@ -60,6 +166,8 @@ export async function analyzeVideo(req: Request, res: Response) {
     });
   } catch (error: any) {
     console.error("Error creating analysis job:", error);
+    // The job may never have been queued, so don't leave the slot held
+    await releaseQuota(res.locals.quotaReservation?.id);
     return res.status(500).json({
       success: false,
       message: "Failed to start video analysis",
@@ -136,3 +244,106 @@ export async function getData(req: Request, res: Response) {
     });
   }
 }
+
+// DELETE /api/video/:jobId - Cancel a pending or running analysis
+export async function cancelAnalysis(req: Request, res: Response) {
+  try {
+    const { jobId } = req.params;
+
+    if (!jobId) {
+      return res.status(400).json({
+        success: false,
+        message: "Job ID is required",
+      });
+    }
+
+    const job = await videoAnalysisQueue.getJob(jobId as string);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        message: "Job not found",
+      });
+    }
+
+    // Only the user who submitted the job may cancel it
+    const userId = getUserIdentifier(req);
+    if (job.data.userId && job.data.userId !== userId) {
+      return res.status(403).json({
+        success: false,
+        message: "You can only cancel your own analyses",
+      });
+    }
+
+    const state = await job.getState();
+    if (state === "completed" || state === "failed") {
+      return res.status(409).json({
+        success: false,
+        message: `Job has already ${state}`,
+      });
+    }
+
+    // Duplicate submissions attach to this job, so it isn't only the caller's
+    if (await historyService.isSharedWithOthers(job.data.jobId, userId)) {
+      return res.status(409).json({
+        success: false,
+        message: "Other users are waiting on this analysis, so it can't be cancelled",
+      });
+    }
+
+    const firstRequest = await requestCancellation(job.data.jobId);
+    if (!firstRequest) {
+      return res.status(202).json({
+        success: true,
+        message: "Cancellation already requested",
+        data: { jobId: job.data.jobId, status: "cancelling" },
+      });
+    }
+
+    // Waiting jobs are removed outright; active ones see the flag between batches
+    let removed = false;
+    if (state === "waiting" || state === "delayed" || state === "prioritized") {
+      try {
+        await job.remove();
+        removed = true;
+      } catch (error: any) {
+        console.warn(
+          `⚠️ Could not remove job ${jobId}, worker will stop it:`,
+          error.message,
+        );
+      }
+    }
+
+    // Active jobs release their quota in the worker once they actually stop,
+    // so a run that finishes anyway is still charged
+    if (removed) {
+      await saveAnalysis(job.data, { status: "cancelled" });
+      socketService.emitProgress({
+        jobId: job.data.jobId,
+        videoId: job.data.videoId,
+        stage: "cancelled",
+        message: "Analysis cancelled",
+        percentage: 0,
+        timestamp: Date.now(),
+      });
+      await releaseQuota(job.data.reservationId);
+    }
+
+    return res.status(removed ? 200 : 202).json({
+      success: true,
+      message: removed ? "Video analysis cancelled" : "Cancellation requested",
+      data: {
+        jobId: job.data.jobId,
+        videoId: job.data.videoId,
+        status: removed ? "cancelled" : "cancelling",
+      },
+    });
+  } catch (error: any) {
+    console.error("Error cancelling analysis job:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Failed to cancel video analysis",
+      error: error.message,
+    });
+  }
+}
@@ -1,23 +1,60 @@
 import type { Request, Response } from 'express';
 import topicService from '../services/topic.service';
-import type { AdvancedVideoFilters } from '../utils/interfaces';
+import type { TopicOptions } from '../services/topic.service';
+import type {
+  AdvancedSearchCursor,
+  AdvancedVideoFilters,
+} from '../utils/interfaces';
+import { historyService } from '../services/history.service';
+import { getUserIdentifier } from '../utils/getUserIdentifier';
+import { searchAdvancedSchema } from '../schemas/validation.schemas';
+import { encodeSearchCursor, decodeSearchCursor } from '../utils/searchCursor';
+import { parseSearchFilters } from '../utils/searchFilters';
+
+// Validate topic input (query or keyword) and return the search term
+// with the time zone and audience region the results are tailored to
+function parseTopicInput(
+  req: Request,
+  res: Response,
+  source: 'query' | 'body',
+): { term: string; options: TopicOptions } | null {
+  const validation = searchAdvancedSchema.shape[source].safeParse(
+    req[source] ?? {},
+  );
+
+  if (!validation.success) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid request',
+      details: validation.error.issues.map((err) => ({
+        field: err.path?.join('.') || 'unknown',
+        message: err.message,
+      })),
+    });
+    return null;
+  }
+
+  return {
+    term: (validation.data.keyword || validation.data.query)!.trim(),
+    options: {
+      timeZone: validation.data.timezone,
+      region: validation.data.region,
+    },
+  };
+}
 
 class TopicController {
   
   // 1️⃣ Analyze Topic - ADVANCED
   async analyzeTopic(req: Request, res: Response): Promise<void> {
     try {
-      const { keyword } = req.body;
-
-      if (!keyword || typeof keyword !== 'string') {
-        res.status(400).json({
-          success: false,
-          message: 'Keyword is required and must be a string',
-        });
-        return;
-      }
+      const input = parseTopicInput(req, res, 'body');
+      if (!input) return;
 
-      const topicData = await topicService.analyzeTopic(keyword);
+      const topicData = await topicService.analyzeTopic(
+        input.term,
+        input.options,
+      );
 
       res.status(200).json({
         success: true,
@@ -35,17 +72,13 @@ class TopicController {
   // 2️⃣ Search Topics - ADVANCED
   async searchTopics(req: Request, res: Response): Promise<void> {
     try {
-      const { query } = req.query;
+      const input = parseTopicInput(req, res, 'query');
+      if (!input) return;
 
-      if (!query || typeof query !== 'string') {
-        res.status(400).json({
-          success: false,
-          message: 'Search query is required',
-        });
-        return;
-      }
-
-      const result = await topicService.searchTopics(query);
+      const result = await topicService.searchTopics(
+        input.term,
+        input.options,
+      );
 
       res.status(200).json({
         success: true,
@@ -63,15 +96,9 @@ class TopicController {
   // 3️⃣ Get Suggestions - ADVANCED
   async getTopicSuggestions(req: Request, res: Response): Promise<void> {
     try {
-      const { keyword } = req.query;
-
-      if (!keyword || typeof keyword !== 'string') {
-        res.status(400).json({
-          success: false,
-          message: 'Keyword is required',
-        });
-        return;
-      }
+      const input = parseTopicInput(req, res, 'query');
+      if (!input) return;
+      const keyword = input.term;
 
       const suggestions = await topicService.getSuggestions(keyword);
 
@@ -91,68 +118,66 @@ class TopicController {
   // 4️⃣ Advanced Video Search with Comprehensive Filters
   async searchVideosAdvanced(req: Request, res: Response): Promise<void> {
     try {
-      const { 
-        query, 
-        sort,           // 'latest' | 'bestMatch' | 'mostViews' | 'topRated'
-        contentType,    // 'longForm' | 'shorts' | 'all'
-        viralScore,     // Number (e.g., 200 for 200%)
-        minViews,       // Number (e.g., 10000 for "10K+")
-        maxResults
-      } = req.query;
-
-      // Validate query
-      if (!query || typeof query !== 'string') {
-        res.status(400).json({ 
-          success: false, 
-          message: 'Query is required' 
-        });
-        return;
-      }
+      const { query: rawQuery, cursor: cursorToken } = req.query;
+
+      let query: string;
+      let filters: AdvancedVideoFilters;
+      let cursor: AdvancedSearchCursor | undefined;
+
+      if (cursorToken !== undefined) {
+        // "Load more": the cursor carries the query and filters of page one
+        cursor =
+          (typeof cursorToken === 'string' && decodeSearchCursor(cursorToken)) ||
+          undefined;
+        if (!cursor) {
+          res.status(400).json({
+            success: false,
+            message: 'Invalid cursor',
+          });
+          return;
+        }
+        query = cursor.query;
+        filters = cursor.filters;
+      } else {
+        // Validate query
+        if (!rawQuery || typeof rawQuery !== 'string') {
+          res.status(400).json({ 
+            success: false, 
+            message: 'Query is required' 
+          });
+          return;
+        }
 
-      // Validate sort
-      const validSorts = ['latest', 'bestMatch', 'mostViews', 'topRated'];
-      const sortFilter = (sort && validSorts.includes(sort as string)) 
-        ? sort as string 
-        : 'bestMatch';
-
-      // Validate content type
-      const validTypes = ['all', 'shorts', 'longForm'];
-      const typeFilter = (contentType && validTypes.includes(contentType as string)) 
-        ? contentType as string 
-        : 'all';
-
-      // Parse viral score (200% = 200)
-      const viralScoreFilter = viralScore 
-        ? parseInt(viralScore as string) 
-        : undefined;
-
-      // Parse min views (10K+ = 10000)
-      const minViewsFilter = minViews 
-        ? parseInt(minViews as string) 
-        : undefined;
-
-      // Validate maxResults
-      let maxResultsFilter: 20 | 50 | 100 = 20;
-      if (maxResults) {
-        const parsed = parseInt(maxResults as string);
-        if ([20, 50, 100].includes(parsed)) {
-          maxResultsFilter = parsed as 20 | 50 | 100;
+        const parsed = parseSearchFilters(req.query);
+        if (typeof parsed === 'string') {
+          res.status(400).json({ success: false, message: parsed });
+          return;
         }
-      }
 
-      // Build filters object
-      const filters: AdvancedVideoFilters = {
-        sort: sortFilter as any,
-        contentType: typeFilter as any,
-        viralScore: viralScoreFilter,
-        minViews: minViewsFilter,
-        maxResults: maxResultsFilter
-      };
+        query = rawQuery;
+        filters = parsed;
+      }
 
       // Execute search
       console.log(`🎯 Search Request: "${query}"`, filters);
       
-      const results = await topicService.searchVideosAdvanced(query, filters);
+      const page = await topicService.searchVideosAdvanced(query, filters, cursor);
+      const results = page.videos;
+
+      // Keep the video IDs only; the search itself can be re-run from the inputs
+      // ("load more" pages continue the entry recorded for the first page)
+      if (!cursor) {
+        await historyService.record({
+          userId: getUserIdentifier(req),
+          tool: 'viral-search',
+          inputs: { query, filters },
+          resultType: 'inline',
+          result: {
+            count: results.length,
+            videoIds: results.map((video) => video.id),
+          },
+        });
+      }
 
       // Return response
       res.status(200).json({
@@ -160,13 +185,19 @@ class TopicController {
         count: results.length,
         query,
         filters: {
-          sort: sortFilter,
-          contentType: typeFilter,
-          viralScore: viralScoreFilter || 'none',
-          minViews: minViewsFilter || 'none',
-          maxResults: maxResultsFilter
+          viralScore: filters.outlierScore?.min ?? 'none',
+          minViews: filters.views?.min ?? 'none',
+          ...filters,
+          publishedAfter: filters.publishedAfter || 'none',
+          publishedBefore: filters.publishedBefore || 'none',
+          regionCode: filters.regionCode || 'none',
+          relevanceLanguage: filters.relevanceLanguage || 'none',
         },
-        data: results
+        data: results,
+        // Percentiles for Shorts and long-form, each against its own format
+        benchmarks: page.benchmarks,
+        // Pass back as ?cursor= to get the next page (null on the last page)
+        nextCursor: page.next ? encodeSearchCursor(page.next) : null,
       });
 
     } catch (error: any) {
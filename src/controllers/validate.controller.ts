@@ -1,8 +1,20 @@
 // src/controllers/validate.controller.ts
 import type { Request, Response } from "express";
-import { validateIdeaService } from "../services/validate.service";
+import { v4 as uuidv4 } from "uuid";
 import { z } from "zod";
+import { ideaValidationQueue } from "../config/queue";
+import type { IdeaValidationJobData } from "../config/queue";
 import { StreamWriter } from "../utils/streamWriter";
+import {
+  isValidEventCursor,
+  markFollowed,
+  markQueued,
+  readJobEvents,
+  releaseFollower,
+} from "../utils/jobEvents";
+import { deferRequestQuota } from "../middleware/featureRateLimiter";
+import { releaseQuota } from "../utils/quotaReservation";
+import { getUserIdentifier } from "../utils/getUserIdentifier";
 
 // ========================================
 // REQUEST VALIDATION SCHEMA
@@ -22,7 +34,20 @@ const ValidateIdeaRequestSchema = z.object({
 
 type ValidateIdeaRequest = z.infer<typeof ValidateIdeaRequestSchema>;
 
+// How often a follower checks for new events
+const EVENT_POLL_INTERVAL_MS = 500;
+
+// Confirm the job is still alive after this many empty polls
+const EVENT_IDLE_CHECK_POLLS = 20;
+
+// Refresh the follower heartbeat every this many polls (well inside the
+// few seconds other followers get when one disconnects)
+const FOLLOWER_HEARTBEAT_POLLS = 4;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
 export class IdeaValidatorController {
+  // POST /api/validate-idea - Queue a validation and stream its events
   async validateIdea(req: Request, res: Response): Promise<void> {
     try {
       // 1. Validate request body
@@ -44,36 +69,33 @@ export class IdeaValidatorController {
 
       console.log(`📝 Received validation request for: "${input.idea}"`);
 
-      // 2. Create stream writer
-      const streamWriter = new StreamWriter(res);
-      console.log("✅ StreamWriter created");
-
-      // 3. Send initial message
-      streamWriter.log(`Starting validation for: "${input.idea}"`, "info");
-      console.log("✅ Initial message sent");
+      // 2. Queue the run; the worker commits or releases the quota slot
+      const jobId = uuidv4();
+      const jobData: IdeaValidationJobData = {
+        jobId,
+        ...input,
+        userId: getUserIdentifier(req),
+        reservationId: deferRequestQuota(res),
+      };
 
       try {
-        // 4. Call service with stream writer
-        console.log("🚀 Calling validateIdeaService...");
-        const result = await validateIdeaService(input, streamWriter);
-        console.log("✅ Service completed");
-
-        // 5. Send final result
-        streamWriter.final({
-          success: true,
-          data: result,
-        });
-      } catch (serviceError: any) {
-        console.error("❌ Service error:", serviceError);
-        streamWriter.log(`Error: ${serviceError.message}`, "error");
-        streamWriter.final({
-          success: false,
-          error: serviceError.message,
-        });
-      } finally {
-        // 6. End stream
-        streamWriter.end();
+        await markQueued(jobId);
+        await ideaValidationQueue.add("validate-idea", jobData, { jobId });
+      } catch (queueError) {
+        await releaseQuota(jobData.reservationId);
+        throw queueError;
       }
+
+      // 3. Follow the run; the client can resume from any event ID
+      // with GET /api/validate-idea/:jobId/events?cursor=<id>
+      const streamWriter = new StreamWriter(res);
+      streamWriter.write({
+        type: "job",
+        jobId,
+        timestamp: new Date().toISOString(),
+      });
+
+      await this.followEvents(jobId, "0", res, streamWriter);
     } catch (error: any) {
       console.error("❌ Error in validateIdea controller:", error);
 
@@ -90,6 +112,122 @@ export class IdeaValidatorController {
       }
     }
   }
+
+  // GET /api/validate-idea/:jobId/events?cursor= - Replay and follow a run
+  async getEvents(req: Request, res: Response): Promise<void> {
+    try {
+      const jobId = req.params.jobId as string;
+      const cursor = (req.query.cursor as string) || "0";
+
+      if (!isValidEventCursor(cursor)) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid cursor",
+        });
+        return;
+      }
+
+      const job = await ideaValidationQueue.getJob(jobId);
+
+      if (!job) {
+        res.status(404).json({
+          success: false,
+          error: "Job not found",
+        });
+        return;
+      }
+
+      // Only the user who submitted the job may read its events
+      if (job.data.userId && job.data.userId !== getUserIdentifier(req)) {
+        res.status(403).json({
+          success: false,
+          error: "You can only view your own validations",
+        });
+        return;
+      }
+
+      const streamWriter = new StreamWriter(res);
+      await this.followEvents(jobId, cursor, res, streamWriter);
+    } catch (error: any) {
+      console.error("❌ Error in getEvents controller:", error);
+
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          error: "Failed to read validation events",
+          message: error.message || "An unexpected error occurred",
+        });
+      } else {
+        res.end();
+      }
+    }
+  }
+
+  /**
+   * Write recorded events after the cursor, then keep writing new ones
+   * until the final event or until the client goes away
+   */
+  private async followEvents(
+    jobId: string,
+    cursor: string,
+    res: Response,
+    streamWriter: StreamWriter,
+  ): Promise<void> {
+    // Once no client is left, the worker aborts the run within seconds
+    let clientGone = false;
+    res.on("close", () => {
+      clientGone = true;
+      void releaseFollower(jobId);
+    });
+
+    let polls = 0;
+    let idlePolls = 0;
+    let jobSettled = false;
+
+    try {
+      while (!clientGone) {
+        if (polls++ % FOLLOWER_HEARTBEAT_POLLS === 0) {
+          await markFollowed(jobId);
+        }
+
+        const events = await readJobEvents(jobId, cursor);
+
+        for (const event of events) {
+          streamWriter.write(event);
+          cursor = event.id;
+          if (event.type === "final") return;
+        }
+
+        if (events.length > 0) {
+          idlePolls = 0;
+          continue;
+        }
+
+        // The worker flushes all events before the job settles,
+        // so an empty read after that means nothing more is coming
+        if (jobSettled) {
+          streamWriter.log("Validation ended without a result", "error");
+          streamWriter.final({
+            success: false,
+            error: "Validation job is no longer running",
+          });
+          return;
+        }
+
+        idlePolls++;
+        if (idlePolls % EVENT_IDLE_CHECK_POLLS === 0) {
+          const job = await ideaValidationQueue.getJob(jobId);
+          const state = job ? await job.getState() : "unknown";
+          jobSettled = ["completed", "failed", "unknown"].includes(state);
+          if (jobSettled) continue;
+        }
+
+        await sleep(EVENT_POLL_INTERVAL_MS);
+      }
+    } finally {
+      streamWriter.end();
+    }
+  }
 }
 
 export const ideaValidatorController = new IdeaValidatorController();
@@ -0,0 +1,186 @@
+import type { Request, Response } from 'express';
+import { watchlistService } from '../services/watchlist.service';
+import {
+  watchlistAddSchema,
+  watchlistChannelSchema,
+} from '../schemas/validation.schemas';
+
+// Parse :channelId and ?days=, and check the channel is on the user's watchlist
+async function parseWatchedChannel(
+  req: Request,
+  res: Response,
+): Promise<{ channelId: string; days: number } | null> {
+  const params = watchlistChannelSchema.shape.params.safeParse(req.params);
+  const query = watchlistChannelSchema.shape.query.safeParse(req.query);
+
+  if (!params.success || !query.success) {
+    res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: [
+        ...(params.error?.issues ?? []),
+        ...(query.error?.issues ?? []),
+      ].map((issue) => issue.message),
+    });
+    return null;
+  }
+
+  if (!(await watchlistService.isWatching(req.user!.id, params.data.channelId))) {
+    res.status(404).json({
+      success: false,
+      message: 'Channel is not on your watchlist',
+    });
+    return null;
+  }
+
+  return { channelId: params.data.channelId, days: query.data.days };
+}
+
+export const watchlistController = {
+  /**
+   * GET /api/watchlist
+   */
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const channels = await watchlistService.list(req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        count: channels.length,
+        data: channels,
+      });
+    } catch (error) {
+      console.error('Watchlist controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch watchlist',
+      });
+    }
+  },
+
+  /**
+   * POST /api/watchlist
+   */
+  async add(req: Request, res: Response): Promise<void> {
+    try {
+      const parsed = watchlistAddSchema.shape.body.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: parsed.error.issues.map((issue) => issue.message),
+        });
+        return;
+      }
+
+      const result = await watchlistService.add(req.user!.id, parsed.data.channel);
+
+      if (!result.success) {
+        res.status(result.statusCode || 500).json({
+          success: false,
+          message: result.error || 'Failed to add channel',
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Channel added to watchlist',
+        data: result.data,
+      });
+    } catch (error) {
+      console.error('Watchlist controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to add channel',
+      });
+    }
+  },
+
+  /**
+   * DELETE /api/watchlist/:channelId
+   */
+  async remove(req: Request, res: Response): Promise<void> {
+    try {
+      const parsed = watchlistChannelSchema.shape.params.safeParse(req.params);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          errors: parsed.error.issues.map((issue) => issue.message),
+        });
+        return;
+      }
+
+      const removed = await watchlistService.remove(req.user!.id, parsed.data.channelId);
+
+      if (!removed) {
+        res.status(404).json({
+          success: false,
+          message: 'Channel is not on your watchlist',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Channel removed from watchlist',
+      });
+    } catch (error) {
+      console.error('Watchlist controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to remove channel',
+      });
+    }
+  },
+
+  /**
+   * GET /api/watchlist/:channelId/growth?days=
+   */
+  async getGrowth(req: Request, res: Response): Promise<void> {
+    try {
+      const watched = await parseWatchedChannel(req, res);
+      if (!watched) return;
+
+      const growth = await watchlistService.getGrowth(watched.channelId, watched.days);
+
+      res.status(200).json({
+        success: true,
+        data: growth,
+      });
+    } catch (error) {
+      console.error('Watchlist controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch channel growth',
+      });
+    }
+  },
+
+  /**
+   * GET /api/watchlist/:channelId/videos?days=
+   */
+  async getNewVideos(req: Request, res: Response): Promise<void> {
+    try {
+      const watched = await parseWatchedChannel(req, res);
+      if (!watched) return;
+
+      const videos = await watchlistService.getNewVideos(watched.channelId, watched.days);
+
+      res.status(200).json({
+        success: true,
+        count: videos.length,
+        data: videos,
+      });
+    } catch (error) {
+      console.error('Watchlist controller error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch new videos',
+      });
+    }
+  },
+};
@@ -0,0 +1,73 @@
+// middleware/auth.middleware.ts
+import type { Request, Response, NextFunction } from "express";
+import { authService } from "../services/auth.service";
+
+// Comma-separated list of account emails allowed to use admin endpoints
+const ADMIN_EMAILS = (process.env.ADMIN_EMAILS || "")
+  .split(",")
+  .map((email) => email.trim().toLowerCase())
+  .filter(Boolean);
+
+/**
+ * Attach the authenticated user (if any) to the request
+ * Requests without a valid Bearer token continue as anonymous
+ */
+export const authenticate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const header = req.headers.authorization;
+
+  if (header?.startsWith("Bearer ")) {
+    const user = await authService.authenticateToken(header.slice(7).trim());
+    if (user) {
+      req.user = user;
+    }
+  }
+
+  next();
+};
+
+/**
+ * Reject requests that are not authenticated
+ */
+export const requireAuth = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      message: "Authentication required",
+    });
+  }
+
+  next();
+};
+
+/**
+ * Reject requests that are not from an admin account
+ */
+export const requireAdmin = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      message: "Authentication required",
+    });
+  }
+
+  if (!ADMIN_EMAILS.includes(req.user.email.toLowerCase())) {
+    return res.status(403).json({
+      success: false,
+      message: "Admin access required",
+    });
+  }
+
+  next();
+};
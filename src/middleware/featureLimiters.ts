@@ -1,23 +1,25 @@
 // middleware/featureLimiters.ts
 import { featureRateLimiter } from "./featureRateLimiter";
 
-// Comment Analyzer - 2 uses per 24 hours
-export const commentAnalyzerLimiter = featureRateLimiter({
-  featureName: "comment-analyzer",
-  maxRequests: 2,
-  windowMs: 24 * 60 * 60 * 1000, // 24 hours
-});
-
-// Idea Validator - 2 uses per 24 hours
-export const ideaValidatorLimiter = featureRateLimiter({
-  featureName: "idea-validator",
-  maxRequests: 2,
-  windowMs: 24 * 60 * 60 * 1000,
-});
-
-// Viral Search - 2 uses per 24 hours
-export const viralSearchLimiter = featureRateLimiter({
-  featureName: "viral-search",
-  maxRequests: 2,
-  windowMs: 24 * 60 * 60 * 1000,
-});
\ No newline at end of file
+// Limits per plan are defined in config/plans.ts
+
+// Comment Analyzer
+export const commentAnalyzerLimiter = featureRateLimiter("comment-analyzer");
+
+// Idea Validator
+export const ideaValidatorLimiter = featureRateLimiter("idea-validator");
+
+// Viral Search
+export const viralSearchLimiter = featureRateLimiter("viral-search");
+
+// Topic Analyzer
+export const topicAnalyzerLimiter = featureRateLimiter("topic-analyzer");
+
+// Topic Search
+export const topicSearchLimiter = featureRateLimiter("topic-search");
+
+// Topic Suggestions
+export const topicSuggestionsLimiter = featureRateLimiter("topic-suggestions");
+
+// Channel Report
+export const channelReportLimiter = featureRateLimiter("channel-report");
@@ -2,18 +2,32 @@
 import type { Request, Response, NextFunction } from "express";
 import { redisClient } from "../config/rt-redis";
 import { getUserIdentifier } from "../utils/getUserIdentifier";
+import {
+  reserveQuota,
+  commitQuota,
+  releaseQuota,
+  usageKey,
+} from "../utils/quotaReservation";
+import type { QuotaReservation } from "../utils/quotaReservation";
+import { getFeatureLimit, getRequestPlan } from "../config/plans";
+import type { FeatureName } from "../config/plans";
 
-interface RateLimitConfig {
-  featureName: string;
-  maxRequests: number;
-  windowMs: number; // in milliseconds
+// Reservation attached to res.locals.quotaReservation by featureRateLimiter
+interface RequestReservation extends QuotaReservation {
+  settled: boolean;
+  deferred: boolean;
 }
 
-export const featureRateLimiter = (config: RateLimitConfig) => {
+// Limits come from the plan registry, resolved per request
+export const featureRateLimiter = (featureName: FeatureName) => {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
+      const config = {
+        featureName,
+        ...getFeatureLimit(featureName, getRequestPlan(req)),
+      };
       const userId = getUserIdentifier(req);
-      const key = `ratelimit:${config.featureName}:${userId}`;
+      const key = usageKey(config.featureName, userId);
       
       // Get current count
       const current = await redisClient.get(key);
@@ -33,13 +47,30 @@ export const featureRateLimiter = (config: RateLimitConfig) => {
         });
       }
 
-      // Increment counter
-      const newCount = await redisClient.incr(key);
-      
-      // Set expiry only on first request
-      if (newCount === 1) {
-        await redisClient.expire(key, Math.floor(config.windowMs / 1000));
-      }
+      // Hold a slot; it is committed or released once the outcome is known
+      const { reservation, count: newCount } = await reserveQuota(
+        config.featureName,
+        userId,
+        config.windowMs,
+      );
+
+      const requestReservation: RequestReservation = {
+        ...reservation,
+        settled: false,
+        deferred: false,
+      };
+      res.locals.quotaReservation = requestReservation;
+
+      // Settle on response unless a handler took over (or already settled)
+      res.on("finish", () => {
+        if (requestReservation.settled || requestReservation.deferred) return;
+
+        if (res.statusCode >= 400) {
+          releaseRequestQuota(res);
+        } else {
+          commitRequestQuota(res);
+        }
+      });
 
       // Get TTL for response
       const ttl = await redisClient.ttl(key);
@@ -66,6 +97,36 @@ export const featureRateLimiter = (config: RateLimitConfig) => {
   };
 };
 
+// Give the request's held slot back (e.g. rejected input or a cached result)
+export const releaseRequestQuota = async (res: Response): Promise<void> => {
+  const reservation: RequestReservation | undefined =
+    res.locals.quotaReservation;
+  if (!reservation || reservation.settled) return;
+
+  reservation.settled = true;
+  await releaseQuota(reservation.id);
+};
+
+// Make the request's held slot permanent
+export const commitRequestQuota = async (res: Response): Promise<void> => {
+  const reservation: RequestReservation | undefined =
+    res.locals.quotaReservation;
+  if (!reservation || reservation.settled) return;
+
+  reservation.settled = true;
+  await commitQuota(reservation.id);
+};
+
+// Hand settlement over to background work; returns the reservation ID to pass along
+export const deferRequestQuota = (res: Response): string | undefined => {
+  const reservation: RequestReservation | undefined =
+    res.locals.quotaReservation;
+  if (!reservation || reservation.settled) return undefined;
+
+  reservation.deferred = true;
+  return reservation.id;
+};
+
 // Helper function to format time
 function formatTime(seconds: number): string {
   const hours = Math.floor(seconds / 3600);
@@ -24,18 +24,25 @@ interface RateLimitOptions {
   windowMs: number; // in milliseconds
   message?: string;
   skipSuccessfulRequests?: boolean;
+  perIp?: boolean; // Key on the IP alone, so rotating User-Agents doesn't help
 }
 
 /**
- * Generate a unique fingerprint for the user
- * Combines IP address and User-Agent for better uniqueness
+ * Get the client's IP address (considering proxies like Render)
  */
-function generateUserFingerprint(req: Request): string {
-  // Get real IP (considering proxies like Render)
+function getClientIp(req: Request): string {
   const forwarded = req.headers['x-forwarded-for'];
-  const ip = forwarded 
+  return forwarded
     ? (Array.isArray(forwarded) ? forwarded[0] : forwarded.split(',')[0]?.trim() || 'unknown')
     : req.socket.remoteAddress || 'unknown';
+}
+
+/**
+ * Generate a unique fingerprint for the user
+ * Combines IP address and User-Agent for better uniqueness
+ */
+function generateUserFingerprint(req: Request): string {
+  const ip = getClientIp(req);
   
   // Get user agent
   const userAgent = req.headers['user-agent'] || 'unknown';
@@ -59,12 +66,15 @@ export function createRateLimiter(options: RateLimitOptions) {
     windowMs,
     message = `Rate limit exceeded. You can only make ${maxRequests} requests per ${windowMs / (1000 * 60 * 60)} hours.`,
     skipSuccessfulRequests = false,
+    perIp = false,
   } = options;
 
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       // Generate user fingerprint
-      const userFingerprint = generateUserFingerprint(req);
+      const userFingerprint = perIp
+        ? crypto.createHash('sha256').update(getClientIp(req)).digest('hex')
+        : generateUserFingerprint(req);
       const key = `rate-limit:${userFingerprint}:${req.path}`;
 
       // Get current count
@@ -148,6 +158,22 @@ export const rateLimiters = {
     windowMs: 60 * 60 * 1000, // 1 hour
     skipSuccessfulRequests: true,
   }),
+
+  // 10 login attempts per 15 minutes per IP (password guessing)
+  loginLimit: createRateLimiter({
+    maxRequests: 10,
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    message: 'Too many login attempts. Please try again in 15 minutes.',
+    perIp: true,
+  }),
+
+  // 5 sign-ups per hour per IP (account spam)
+  signupLimit: createRateLimiter({
+    maxRequests: 5,
+    windowMs: 60 * 60 * 1000, // 1 hour
+    message: 'Too many accounts created from this network. Please try again in an hour.',
+    perIp: true,
+  }),
 };
 
 /**
@@ -0,0 +1,72 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface SnapshotUpload {
+  videoId: string;
+  title: string;
+  publishedAt: Date;
+  views: number;
+}
+
+/**
+ * Daily statistics of a watched channel
+ * Shared by every user watching the channel; one document per channel per day
+ */
+export interface IChannelSnapshot extends Document {
+  channelId: string;
+  date: string; // UTC day, YYYY-MM-DD
+  subscribers: number | null; // null when the channel hides its count
+  views: number;
+  videoCount: number;
+  latestUploads: SnapshotUpload[];
+  capturedAt: Date;
+}
+
+const SnapshotUploadSchema = new Schema({
+  videoId: { type: String, required: true },
+  title: { type: String, default: '' },
+  publishedAt: { type: Date, required: true },
+  views: { type: Number, default: 0 },
+}, { _id: false });
+
+const ChannelSnapshotSchema: Schema = new Schema({
+  channelId: {
+    type: String,
+    required: [true, 'Channel ID is required'],
+  },
+  date: {
+    type: String,
+    required: true,
+  },
+  subscribers: {
+    type: Number,
+    default: null,
+  },
+  views: {
+    type: Number,
+    default: 0,
+  },
+  videoCount: {
+    type: Number,
+    default: 0,
+  },
+  latestUploads: {
+    type: [SnapshotUploadSchema],
+    default: [],
+  },
+  capturedAt: {
+    type: Date,
+    default: Date.now,
+  },
+}, {
+  collection: 'channel_snapshots'
+});
+
+// Re-running a day's snapshot replaces it; series are read in date order
+ChannelSnapshotSchema.index({ channelId: 1, date: 1 }, { unique: true });
+
+// Prevent model overwrite error
+const ChannelSnapshot =
+  (mongoose.models.ChannelSnapshot as mongoose.Model<IChannelSnapshot>) ||
+  mongoose.model<IChannelSnapshot>('ChannelSnapshot', ChannelSnapshotSchema);
+
+export default ChannelSnapshot;
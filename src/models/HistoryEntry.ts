@@ -0,0 +1,66 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { HISTORY_TOOLS } from '../config/plans';
+import type { HistoryTool } from '../config/plans';
+
+/**
+ * Where the full result of a history entry lives
+ * - video-analysis: a VideoAnalysis report, referenced by jobId
+ * - inline: a snapshot stored on the entry itself
+ */
+export type HistoryResultType = 'video-analysis' | 'inline';
+
+export interface IHistoryEntry extends Document {
+  userId: string;
+  tool: HistoryTool;
+  inputs: Record<string, unknown>;
+  resultType: HistoryResultType;
+  resultId?: string;
+  result?: unknown;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const HistoryEntrySchema: Schema = new Schema({
+  userId: {
+    type: String,
+    required: [true, 'User identifier is required'],
+  },
+  tool: {
+    type: String,
+    required: [true, 'Tool is required'],
+    enum: HISTORY_TOOLS,
+  },
+  inputs: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+  resultType: {
+    type: String,
+    enum: ['video-analysis', 'inline'],
+    required: true,
+  },
+  resultId: {
+    type: String,
+    default: null,
+  },
+  result: {
+    type: Schema.Types.Mixed,
+    default: null,
+  },
+}, {
+  timestamps: true,
+  collection: 'history_entries'
+});
+
+// Newest-first listing per user, optionally filtered by tool
+HistoryEntrySchema.index({ userId: 1, createdAt: -1 });
+HistoryEntrySchema.index({ userId: 1, tool: 1, createdAt: -1 });
+// Who else is waiting on a shared analysis
+HistoryEntrySchema.index({ resultId: 1, userId: 1 });
+
+// Prevent model overwrite error
+const HistoryEntry =
+  (mongoose.models.HistoryEntry as mongoose.Model<IHistoryEntry>) ||
+  mongoose.model<IHistoryEntry>('HistoryEntry', HistoryEntrySchema);
+
+export default HistoryEntry;
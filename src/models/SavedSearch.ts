@@ -0,0 +1,78 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { AdvancedVideoFilters } from '../utils/interfaces';
+
+export interface ISavedSearch extends Document {
+  userId: string;
+  name: string;
+  query: string;
+  filters: AdvancedVideoFilters;
+  outlierThreshold: number; // New videos at or above this outlier score are alerted
+  alertsEnabled: boolean;
+  lastRunAt?: Date; // Unset until the first scheduled run sets the baseline
+  lastResultIds: string[];
+  alertedVideoIds: string[]; // Most recent videos already emailed, oldest first
+  lastAlertedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SavedSearchSchema: Schema = new Schema({
+  userId: {
+    type: String,
+    required: [true, 'User is required'],
+  },
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [100, 'Name must be less than 100 characters'],
+  },
+  query: {
+    type: String,
+    required: [true, 'Query is required'],
+    trim: true,
+  },
+  filters: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+  outlierThreshold: {
+    type: Number,
+    default: 300,
+    min: 0,
+  },
+  alertsEnabled: {
+    type: Boolean,
+    default: true,
+  },
+  lastRunAt: {
+    type: Date,
+    default: null,
+  },
+  lastResultIds: {
+    type: [String],
+    default: [],
+  },
+  alertedVideoIds: {
+    type: [String],
+    default: [],
+  },
+  lastAlertedAt: {
+    type: Date,
+    default: null,
+  },
+}, {
+  timestamps: true,
+  collection: 'saved_searches'
+});
+
+SavedSearchSchema.index({ userId: 1, createdAt: -1 });
+// The scheduled run only loads searches with alerts on
+SavedSearchSchema.index({ alertsEnabled: 1, userId: 1 });
+
+// Prevent model overwrite error
+const SavedSearch =
+  (mongoose.models.SavedSearch as mongoose.Model<ISavedSearch>) ||
+  mongoose.model<ISavedSearch>('SavedSearch', SavedSearchSchema);
+
+export default SavedSearch;
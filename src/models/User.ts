@@ -0,0 +1,59 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { PlanName } from '../config/plans';
+
+export interface IUser extends Document {
+  email: string;
+  name?: string;
+  passwordHash: string;
+  plan: PlanName;
+  lastLoginAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UserSchema: Schema = new Schema({
+  email: {
+    type: String,
+    required: [true, 'Email is required'],
+    unique: true,
+    trim: true,
+    lowercase: true,
+    validate: {
+      validator: function(v: string) {
+        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+        return emailRegex.test(v);
+      },
+      message: 'Invalid email format'
+    }
+  },
+  name: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters'],
+    default: null,
+  },
+  passwordHash: {
+    type: String,
+    required: [true, 'Password is required'],
+    select: false, // Never returned unless explicitly requested
+  },
+  plan: {
+    type: String,
+    enum: ['free', 'pro', 'team'],
+    default: 'free',
+  },
+  lastLoginAt: {
+    type: Date,
+    default: null,
+  },
+}, {
+  timestamps: true,
+  collection: 'users'
+});
+
+// Prevent model overwrite error
+const User =
+  (mongoose.models.User as mongoose.Model<IUser>) ||
+  mongoose.model<IUser>('User', UserSchema);
+
+export default User;
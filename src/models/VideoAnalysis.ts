@@ -0,0 +1,99 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { VideoAnalysisResult } from '../config/queue';
+
+export interface IVideoAnalysis extends Document {
+  jobId: string;
+  videoId: string;
+  videoUrl: string;
+  userId?: string;
+  status: VideoAnalysisResult['status'];
+  options?: {
+    maxComments: number | null;
+    includeReplies: boolean;
+  };
+  summary?: VideoAnalysisResult['summary'];
+  thingsLoved?: VideoAnalysisResult['thingsLoved'];
+  improvements?: VideoAnalysisResult['improvements'];
+  emotions?: VideoAnalysisResult['emotions'];
+  patterns?: VideoAnalysisResult['patterns'];
+  wantMore?: VideoAnalysisResult['wantMore'];
+  totalProcessed?: number;
+  hasTranscript?: boolean;
+  processingTime?: string;
+  error?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const VideoAnalysisSchema: Schema = new Schema({
+  jobId: {
+    type: String,
+    required: [true, 'Job ID is required'],
+    unique: true,
+    trim: true,
+  },
+  videoId: {
+    type: String,
+    required: [true, 'Video ID is required'],
+    trim: true,
+  },
+  videoUrl: {
+    type: String,
+    required: [true, 'Video URL is required'],
+    trim: true,
+  },
+  userId: {
+    type: String,
+    default: null,
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'processing', 'completed', 'failed', 'cancelled'],
+    default: 'pending',
+  },
+  options: {
+    maxComments: { type: Number, default: null },
+    includeReplies: { type: Boolean, default: false },
+  },
+  // Report sections are stored as-is from the analysis workflow
+  summary: { type: Schema.Types.Mixed, default: undefined },
+  thingsLoved: { type: Schema.Types.Mixed, default: undefined },
+  improvements: { type: Schema.Types.Mixed, default: undefined },
+  emotions: { type: Schema.Types.Mixed, default: undefined },
+  patterns: { type: Schema.Types.Mixed, default: undefined },
+  wantMore: { type: Schema.Types.Mixed, default: undefined },
+  totalProcessed: {
+    type: Number,
+    default: null,
+  },
+  hasTranscript: {
+    type: Boolean,
+    default: null,
+  },
+  processingTime: {
+    type: String,
+    default: null,
+  },
+  error: {
+    type: String,
+    default: null,
+  },
+  completedAt: {
+    type: Date,
+    default: null,
+  },
+}, {
+  timestamps: true,
+  collection: 'video_analyses'
+});
+
+// Create indexes
+VideoAnalysisSchema.index({ videoId: 1, status: 1, completedAt: -1 });
+
+// Prevent model overwrite error
+const VideoAnalysis =
+  (mongoose.models.VideoAnalysis as mongoose.Model<IVideoAnalysis>) ||
+  mongoose.model<IVideoAnalysis>('VideoAnalysis', VideoAnalysisSchema);
+
+export default VideoAnalysis;
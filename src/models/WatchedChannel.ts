@@ -0,0 +1,49 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IWatchedChannel extends Document {
+  userId: string;
+  channelId: string;
+  title: string;
+  handle?: string;
+  thumbnail?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WatchedChannelSchema: Schema = new Schema({
+  userId: {
+    type: String,
+    required: [true, 'User is required'],
+  },
+  channelId: {
+    type: String,
+    required: [true, 'Channel ID is required'],
+  },
+  title: {
+    type: String,
+    required: true,
+  },
+  handle: {
+    type: String,
+    default: null,
+  },
+  thumbnail: {
+    type: String,
+    default: null,
+  },
+}, {
+  timestamps: true,
+  collection: 'watched_channels'
+});
+
+// A channel is watched at most once per user
+WatchedChannelSchema.index({ userId: 1, channelId: 1 }, { unique: true });
+// Snapshot job collects every watched channel
+WatchedChannelSchema.index({ channelId: 1 });
+
+// Prevent model overwrite error
+const WatchedChannel =
+  (mongoose.models.WatchedChannel as mongoose.Model<IWatchedChannel>) ||
+  mongoose.model<IWatchedChannel>('WatchedChannel', WatchedChannelSchema);
+
+export default WatchedChannel;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { adminController } from '../controllers/admin.controller';
+import { requireAdmin } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Admin accounts are listed in ADMIN_EMAILS
+router.use(requireAdmin);
+
+router.get('/cache', adminController.getCacheStats);
+router.delete('/cache', adminController.purgeCache);
+router.delete('/cache/:namespace', adminController.purgeCache);
+
+router.get('/youtube-quota', adminController.getYouTubeQuota);
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { authController } from '../controllers/auth.controller';
+import { requireAuth } from '../middleware/auth.middleware';
+import { rateLimiters } from '../middleware/rate-limiter.middleware';
+
+const router = Router();
+
+router.post('/signup', rateLimiters.signupLimit, authController.signup);
+router.post('/login', rateLimiters.loginLimit, authController.login);
+
+router.get('/me', requireAuth, authController.me);
+
+export default router;
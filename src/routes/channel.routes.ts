@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { channelController } from '../controllers/channel.controller';
+import { channelReportLimiter } from '../middleware/featureLimiters';
+
+const router = Router();
+
+// GET /api/channels/:channelIdOrHandle/report - Cadence, views, format mix and engagement trend
+// Rate limited per plan (see config/plans.ts)
+router.get('/:channelIdOrHandle/report', channelReportLimiter, channelController.getReport);
+
+export default router;
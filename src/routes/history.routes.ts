@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { historyController } from '../controllers/history.controller';
+
+const router = Router();
+
+// GET /api/history - Past reports of the current user (paginated)
+router.get('/', historyController.getHistory);
+
+export default router;
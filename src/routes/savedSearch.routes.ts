@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { savedSearchController } from '../controllers/savedSearch.controller';
+import { requireAuth } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Saved searches belong to accounts (digests go to the account email)
+router.use(requireAuth);
+
+// GET /api/saved-searches - The user's saved searches
+router.get('/', savedSearchController.list);
+
+// POST /api/saved-searches - Save a search ({ name, query, filters, outlierThreshold })
+router.post('/', savedSearchController.create);
+
+// PATCH /api/saved-searches/:id - Rename, change the threshold or toggle alerts
+router.patch('/:id', savedSearchController.update);
+
+// DELETE /api/saved-searches/:id
+router.delete('/:id', savedSearchController.remove);
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import {
   analyzeVideo,
+  cancelAnalysis,
   getData,
   getStatus,
 } from "../controllers/sentiment.controller";
@@ -8,12 +9,14 @@ import { commentAnalyzerLimiter } from "../middleware/featureLimiters";
 
 const router = Router();
 // POST /api/video/analyze - Submit video for sentiment analysis
-// Rate limited: 2 requests per 24 hours
+// Rate limited per plan (see config/plans.ts)
 router.post("/analyze", commentAnalyzerLimiter, analyzeVideo);
 // GET /api/video/status/:jobId - Get analysis status
 // Higher rate limit for status checks
 router.get("/status/:jobId", getStatus);
 // GET /api/video/:jobId - Get analysis data
 router.get("/:jobId", getData);
+// DELETE /api/video/:jobId - Cancel a pending or running analysis
+router.delete("/:jobId", cancelAnalysis);
 
 export default router;
@@ -1,15 +1,52 @@
 import { Router } from "express";
+import type { Request, Response, NextFunction } from "express";
 import topicController from "../controllers/topic.controller";
-import { viralSearchLimiter } from "../middleware/featureLimiters";
+import {
+  viralSearchLimiter,
+  topicAnalyzerLimiter,
+  topicSearchLimiter,
+  topicSuggestionsLimiter,
+} from "../middleware/featureLimiters";
+import { decodeSearchCursor } from "../utils/searchCursor";
 
 const router = Router();
 
+// "Load more" pages (a valid signed ?cursor=) continue a search that was
+// already counted, so only the first page uses a viral-search slot
+const viralSearchFirstPageLimiter = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const { cursor } = req.query;
+  if (typeof cursor === "string" && decodeSearchCursor(cursor)) {
+    return next();
+  }
+  return viralSearchLimiter(req, res, next);
+};
+
 // GET /api/topics/search-advanced
-// Rate limited: 2 requests per 24 hours
+// Rate limited per plan (see config/plans.ts); ?cursor= pages are free
 router.get(
   "/search-advanced",
-  viralSearchLimiter,
+  viralSearchFirstPageLimiter,
   topicController.searchVideosAdvanced,
 );
 
+// POST /api/topics/analyze - Opportunity score, CPM and competition for a keyword
+// Rate limited per plan (see config/plans.ts)
+router.post("/analyze", topicAnalyzerLimiter, topicController.analyzeTopic);
+
+// GET /api/topics/search?query= - Ranked topic ideas for a search query
+// Rate limited per plan (see config/plans.ts)
+router.get("/search", topicSearchLimiter, topicController.searchTopics);
+
+// GET /api/topics/suggestions?keyword= - Related niches and keyword combinations
+// Rate limited per plan (see config/plans.ts)
+router.get(
+  "/suggestions",
+  topicSuggestionsLimiter,
+  topicController.getTopicSuggestions,
+);
+
 export default router;
@@ -3,6 +3,15 @@ import { Router } from "express";
 import type { Request, Response } from "express";
 import { redisClient } from "../config/rt-redis";
 import { getUserIdentifier } from "../utils/getUserIdentifier";
+import { usageKey } from "../utils/quotaReservation";
+import {
+  FEATURES,
+  FEATURE_NAMES,
+  PLANS,
+  getFeatureLimit,
+  getRequestPlan,
+  isFeatureName,
+} from "../config/plans";
 
 const router = Router();
 
@@ -10,32 +19,34 @@ const router = Router();
 router.get("/summary", async (req: Request, res: Response) => {
   try {
     const userId = getUserIdentifier(req);
-
-    const features = [
-      { name: "comment-analyzer", maxPerDay: 2 },
-      { name: "idea-validator", maxPerDay: 2 },
-      { name: "viral-search", maxPerDay: 2 },
-    ];
+    const plan = getRequestPlan(req);
 
     let totalUsed = 0;
     let totalRemaining = 0;
+    let totalAllowed = 0;
 
-    for (const feature of features) {
-      const key = `ratelimit:${feature.name}:${userId}`;
-      const current = await redisClient.get(key);
+    for (const featureName of FEATURE_NAMES) {
+      const { maxRequests } = getFeatureLimit(featureName, plan);
+      const current = await redisClient.get(usageKey(featureName, userId));
       const currentCount = current ? parseInt(current) : 0;
-      
+
       totalUsed += currentCount;
-      totalRemaining += Math.max(0, feature.maxPerDay - currentCount);
+      totalRemaining += Math.max(0, maxRequests - currentCount);
+      totalAllowed += maxRequests;
     }
 
     res.json({
       success: true,
+      plan: {
+        name: plan,
+        displayName: PLANS[plan].displayName,
+      },
       summary: {
         totalUsed,
         totalRemaining,
-        totalAllowed: 6,
-        percentageUsed: Math.round((totalUsed / 6) * 100),
+        totalAllowed,
+        percentageUsed:
+          totalAllowed > 0 ? Math.round((totalUsed / totalAllowed) * 100) : 0,
       },
     });
   } catch (error) {
@@ -47,48 +58,23 @@ router.get("/summary", async (req: Request, res: Response) => {
   }
 });
 
-// 2. GET /api/usage/comment-analyzer - Comment Analyzer usage
-router.get("/comment-analyzer", async (req: Request, res: Response) => {
-  try {
-    const userId = getUserIdentifier(req);
-    const featureName = "comment-analyzer";
-    const maxPerDay = 2;
-
-    const key = `ratelimit:${featureName}:${userId}`;
-    const current = await redisClient.get(key);
-    const currentCount = current ? parseInt(current) : 0;
-    const ttl = await redisClient.ttl(key);
+// 2. GET /api/usage/:feature - Usage of a single feature
+// (comment-analyzer, idea-validator, viral-search, ...)
+router.get("/:feature", async (req: Request, res: Response) => {
+  const featureName = req.params.feature as string;
 
-    res.json({
-      success: true,
-      feature: {
-        name: featureName,
-        displayName: "Comment Analyzer",
-        used: currentCount,
-        remaining: Math.max(0, maxPerDay - currentCount),
-        limit: maxPerDay,
-        resetIn: ttl > 0 ? ttl : null,
-        resetInHuman: ttl > 0 ? formatTime(ttl) : "Not started",
-        isExhausted: currentCount >= maxPerDay,
-      },
-    });
-  } catch (error) {
-    console.error("Comment analyzer usage error:", error);
-    res.status(500).json({
+  if (!isFeatureName(featureName)) {
+    return res.status(404).json({
       success: false,
-      message: "Failed to fetch comment analyzer usage",
+      message: `Unknown feature: ${featureName}`,
     });
   }
-});
 
-// 3. GET /api/usage/idea-validator - Idea Validator usage
-router.get("/idea-validator", async (req: Request, res: Response) => {
   try {
     const userId = getUserIdentifier(req);
-    const featureName = "idea-validator";
-    const maxPerDay = 2;
+    const { maxRequests } = getFeatureLimit(featureName, getRequestPlan(req));
 
-    const key = `ratelimit:${featureName}:${userId}`;
+    const key = usageKey(featureName, userId);
     const current = await redisClient.get(key);
     const currentCount = current ? parseInt(current) : 0;
     const ttl = await redisClient.ttl(key);
@@ -97,54 +83,20 @@ router.get("/idea-validator", async (req: Request, res: Response) => {
       success: true,
       feature: {
         name: featureName,
-        displayName: "Idea Validator",
+        displayName: FEATURES[featureName].displayName,
         used: currentCount,
-        remaining: Math.max(0, maxPerDay - currentCount),
-        limit: maxPerDay,
+        remaining: Math.max(0, maxRequests - currentCount),
+        limit: maxRequests,
         resetIn: ttl > 0 ? ttl : null,
         resetInHuman: ttl > 0 ? formatTime(ttl) : "Not started",
-        isExhausted: currentCount >= maxPerDay,
+        isExhausted: currentCount >= maxRequests,
       },
     });
   } catch (error) {
-    console.error("Idea validator usage error:", error);
+    console.error(`${FEATURES[featureName].displayName} usage error:`, error);
     res.status(500).json({
       success: false,
-      message: "Failed to fetch idea validator usage",
-    });
-  }
-});
-
-// 4. GET /api/usage/viral-search - Topic Finder usage
-router.get("/viral-search", async (req: Request, res: Response) => {
-  try {
-    const userId = getUserIdentifier(req);
-    const featureName = "viral-search";
-    const maxPerDay = 2;
-
-    const key = `ratelimit:${featureName}:${userId}`;
-    const current = await redisClient.get(key);
-    const currentCount = current ? parseInt(current) : 0;
-    const ttl = await redisClient.ttl(key);
-
-    res.json({
-      success: true,
-      feature: {
-        name: featureName,
-        displayName: "Viral Search",
-        used: currentCount,
-        remaining: Math.max(0, maxPerDay - currentCount),
-        limit: maxPerDay,
-        resetIn: ttl > 0 ? ttl : null,
-        resetInHuman: ttl > 0 ? formatTime(ttl) : "Not started",
-        isExhausted: currentCount >= maxPerDay,
-      },
-    });
-  } catch (error) {
-    console.error("Viral search usage error:", error);
-    res.status(500).json({
-      success: false,
-      message: "Failed to fetch viral search usage",
+      message: `Failed to fetch ${FEATURES[featureName].displayName.toLowerCase()} usage`,
     });
   }
 });
@@ -153,7 +105,7 @@ router.get("/viral-search", async (req: Request, res: Response) => {
 function formatTime(seconds: number): string {
   const hours = Math.floor(seconds / 3600);
   const minutes = Math.floor((seconds % 3600) / 60);
-  
+
   if (hours > 0) {
     return `${hours}h ${minutes}m`;
   } else if (minutes > 0) {
@@ -163,4 +115,4 @@ function formatTime(seconds: number): string {
   }
 }
 
-export default router;
\ No newline at end of file
+export default router;
@@ -5,9 +5,15 @@ import { ideaValidatorLimiter } from "../middleware/featureLimiters";
 const router = Router();
 
 // POST /api/validate-idea
-// Rate limited: 2 requests per 24 hours
+// Rate limited per plan (see config/plans.ts)
 router.post("/validate-idea", ideaValidatorLimiter , (req: Request, res: Response) =>
   ideaValidatorController.validateIdea(req, res),
 );
 
+// GET /api/validate-idea/:jobId/events?cursor= - Replay a run's events and
+// keep following it (reconnect with the ID of the last event received)
+router.get("/validate-idea/:jobId/events", (req: Request, res: Response) =>
+  ideaValidatorController.getEvents(req, res),
+);
+
 export default router;
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { watchlistController } from '../controllers/watchlist.controller';
+import { requireAuth } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Watchlists belong to accounts
+router.use(requireAuth);
+
+// GET /api/watchlist - Watched channels with their latest snapshot
+router.get('/', watchlistController.list);
+
+// POST /api/watchlist - Watch a channel ({ channel: "UC..." | "@handle" })
+router.post('/', watchlistController.add);
+
+// DELETE /api/watchlist/:channelId - Stop watching a channel
+router.delete('/:channelId', watchlistController.remove);
+
+// GET /api/watchlist/:channelId/growth?days=30 - Daily subscriber and view series
+router.get('/:channelId/growth', watchlistController.getGrowth);
+
+// GET /api/watchlist/:channelId/videos?days=7 - Videos published in the window
+router.get('/:channelId/videos', watchlistController.getNewVideos);
+
+export default router;
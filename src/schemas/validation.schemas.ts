@@ -1,5 +1,8 @@
 // src/schemas/validation.schemas.ts
 import { z } from "zod";
+import { isValidTimeZone } from "../utils/helpers";
+import { HISTORY_TOOLS } from "../config/plans";
+import type { RevenueEstimate } from "../utils/interfaces";
 
 // ========================================
 // API VALIDATION SCHEMAS (for rate limiting & security)
@@ -23,6 +26,7 @@ export const analyzeVideoSchema = z.object({
       maxComments: z.number().min(10).max(500).optional().default(100),
       includeReplies: z.boolean().optional().default(false),
     }).optional(),
+    force: z.boolean().optional().default(false),
   }),
 });
 
@@ -49,27 +53,48 @@ export const validateIdeaSchema = z.object({
 
 /**
  * Schema for Advanced Topic Search
+ * GET requests send these fields in the query string, POST in a JSON body
  */
+const topicInputFields = {
+  query: z.string()
+    .min(2, 'Search query must be at least 2 characters')
+    .max(200, 'Search query must be less than 200 characters')
+    .optional(),
+  keyword: z.string()
+    .min(2, 'Keyword must be at least 2 characters')
+    .max(100, 'Keyword must be less than 100 characters')
+    .optional(),
+  timezone: z.string()
+    .max(64, 'Time zone is too long')
+    .refine(isValidTimeZone, { message: 'Time zone must be an IANA name like "America/New_York"' })
+    .optional()
+    .default('UTC'),
+  region: z.string()
+    .regex(/^[A-Za-z]{2}$/, 'Region must be a 2-letter country code')
+    .transform((val) => val.toUpperCase())
+    .optional(),
+};
+
+const hasTopicTerm = (data: { query?: string; keyword?: string }) =>
+  Boolean(data.query || data.keyword);
+
 export const searchAdvancedSchema = z.object({
   query: z.object({
-    query: z.string()
-      .min(2, 'Search query must be at least 2 characters')
-      .max(200, 'Search query must be less than 200 characters')
-      .optional(),
-    keyword: z.string()
-      .min(2, 'Keyword must be at least 2 characters')
-      .max(100, 'Keyword must be less than 100 characters')
-      .optional(),
+    ...topicInputFields,
     limit: z.string()
       .refine((val) => !isNaN(Number(val)), { message: 'Limit must be a number' })
       .transform(Number)
       .refine((val) => val > 0 && val <= 50, { message: 'Limit must be between 1 and 50' })
       .optional()
       .default(10),
-  }).refine(
-    (data) => data.query || data.keyword,
-    { message: 'Either query or keyword must be provided' }
-  ),
+  }).refine(hasTopicTerm, { message: 'Either query or keyword must be provided' }),
+  body: z.object({
+    ...topicInputFields,
+    limit: z.coerce.number({ message: 'Limit must be a number' })
+      .refine((val) => val > 0 && val <= 50, { message: 'Limit must be between 1 and 50' })
+      .optional()
+      .default(10),
+  }).refine(hasTopicTerm, { message: 'Either query or keyword must be provided' }),
 });
 
 /**
@@ -83,6 +108,139 @@ export const jobIdSchema = z.object({
   }),
 });
 
+/**
+ * Schema for History listing
+ */
+export const historyQuerySchema = z.object({
+  query: z.object({
+    tool: z.enum(HISTORY_TOOLS).optional(),
+    page: z.string()
+      .refine((val) => !isNaN(Number(val)), { message: 'Page must be a number' })
+      .transform(Number)
+      .refine((val) => Number.isInteger(val) && val >= 1, { message: 'Page must be 1 or greater' })
+      .optional()
+      .default(1),
+    limit: z.string()
+      .refine((val) => !isNaN(Number(val)), { message: 'Limit must be a number' })
+      .transform(Number)
+      .refine((val) => Number.isInteger(val) && val > 0 && val <= 50, { message: 'Limit must be between 1 and 50' })
+      .optional()
+      .default(20),
+  }),
+});
+
+/**
+ * Schema for Channel reports (channel ID or @handle)
+ */
+export const channelReportSchema = z.object({
+  params: z.object({
+    channelIdOrHandle: z.string()
+      .trim()
+      .regex(
+        /^(UC[\w-]{22}|@?[\w.-]{3,30})$/,
+        'Must be a channel ID (UC...) or an @handle',
+      ),
+  }),
+});
+
+/**
+ * Schemas for the competitor watchlist
+ */
+export const watchlistAddSchema = z.object({
+  body: z.object({
+    channel: z.string()
+      .trim()
+      .regex(
+        /^(UC[\w-]{22}|@?[\w.-]{3,30})$/,
+        'Must be a channel ID (UC...) or an @handle',
+      ),
+  }),
+});
+
+export const watchlistChannelSchema = z.object({
+  params: z.object({
+    channelId: z.string().regex(/^UC[\w-]{22}$/, 'Invalid channel ID'),
+  }),
+  query: z.object({
+    days: z.string()
+      .refine((val) => !isNaN(Number(val)), { message: 'Days must be a number' })
+      .transform(Number)
+      .refine((val) => Number.isInteger(val) && val >= 1 && val <= 365, { message: 'Days must be between 1 and 365' })
+      .optional()
+      .default(30),
+  }),
+});
+
+/**
+ * Schemas for saved searches
+ * filters take the same names as the search-advanced query params
+ */
+export const savedSearchCreateSchema = z.object({
+  body: z.object({
+    name: z.string()
+      .trim()
+      .max(100, 'Name must be less than 100 characters')
+      .optional(),
+    query: z.string()
+      .trim()
+      .min(2, 'Search query must be at least 2 characters')
+      .max(200, 'Search query must be less than 200 characters'),
+    filters: z.record(z.string(), z.union([z.string(), z.number()]))
+      .optional()
+      .default({}),
+    outlierThreshold: z.number()
+      .min(100, 'Outlier threshold must be at least 100 (1x the channel median)')
+      .max(1000, 'Outlier threshold must be at most 1000')
+      .optional(),
+    alertsEnabled: z.boolean().optional(),
+  }),
+});
+
+export const savedSearchUpdateSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid saved search ID'),
+  }),
+  body: z.object({
+    name: z.string()
+      .trim()
+      .min(1, 'Name cannot be empty')
+      .max(100, 'Name must be less than 100 characters')
+      .optional(),
+    outlierThreshold: z.number()
+      .min(100, 'Outlier threshold must be at least 100 (1x the channel median)')
+      .max(1000, 'Outlier threshold must be at most 1000')
+      .optional(),
+    alertsEnabled: z.boolean().optional(),
+  }),
+});
+
+/**
+ * Schema for Account Signup
+ */
+export const signupSchema = z.object({
+  body: z.object({
+    email: z.string()
+      .email('Invalid email format')
+      .max(254, 'Email is too long'),
+    password: z.string()
+      .min(8, 'Password must be at least 8 characters')
+      .max(128, 'Password must be less than 128 characters'),
+    name: z.string()
+      .max(100, 'Name must be less than 100 characters')
+      .optional(),
+  }),
+});
+
+/**
+ * Schema for Account Login
+ */
+export const loginSchema = z.object({
+  body: z.object({
+    email: z.string().email('Invalid email format'),
+    password: z.string().min(1, 'Password is required'),
+  }),
+});
+
 /**
  * General text input sanitization
  */
@@ -327,4 +485,5 @@ export interface EstimatedMetricsResult {
   estimatedRetention: number;
   viralityScore: number;
   algorithmScore: number;
+  revenue: RevenueEstimate | null; // Per video, at the sample's average views
 }
\ No newline at end of file
@@ -5,6 +5,9 @@ import { config } from "dotenv";
 import { connectDB } from "./config/connectDB";
 import { socketService } from "./services/socket.service";
 import "./workers/video.worker";
+import "./workers/validate.worker";
+import "./workers/snapshot.worker";
+import "./workers/savedSearch.worker";
 
 config();
 
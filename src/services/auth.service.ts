@@ -0,0 +1,252 @@
+import crypto from "crypto";
+import { promisify } from "util";
+import jwt from "jsonwebtoken";
+import mongoose from "mongoose";
+import { config } from "dotenv";
+import User from "../models/User";
+import type { IUser } from "../models/User";
+import type { AuthUser } from "../types/express";
+import { isPlanName } from "../config/plans";
+import type { PlanName } from "../config/plans";
+import { RedisCache } from "../utils/redisCache";
+
+config();
+
+const JWT_SECRET = process.env.JWT_SECRET! as string;
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || "7d";
+
+if (!JWT_SECRET) {
+  throw new Error("JWT_SECRET is not defined in environment variables");
+}
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number,
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+// Plans are read from the account, not the token, so upgrades and
+// downgrades apply within a minute instead of when the token expires
+const planCache = new RedisCache("account-plans", {
+  ttlMs: 60 * 1000,
+  maxEntries: 10000,
+});
+
+interface SignupData {
+  email: string;
+  password: string;
+  name?: string;
+}
+
+interface LoginData {
+  email: string;
+  password: string;
+}
+
+interface AuthServiceResponse {
+  success: boolean;
+  token?: string;
+  user?: PublicUser;
+  error?: string;
+  statusCode?: number;
+}
+
+export interface PublicUser {
+  id: string;
+  email: string;
+  name?: string;
+  plan: string;
+  createdAt: Date;
+}
+
+export class AuthService {
+  /**
+   * Create an account and return a session token
+   */
+  async signup(data: SignupData): Promise<AuthServiceResponse> {
+    try {
+      const email = data.email.trim().toLowerCase();
+
+      const existing = await User.findOne({ email });
+      if (existing) {
+        return {
+          success: false,
+          error: "An account with this email already exists",
+          statusCode: 409,
+        };
+      }
+
+      const user = await User.create({
+        email,
+        name: data.name?.trim() || null,
+        passwordHash: await this.hashPassword(data.password),
+      });
+
+      return {
+        success: true,
+        token: this.signToken(user),
+        user: this.toPublicUser(user),
+      };
+    } catch (error) {
+      console.error("❌ Error in signup:", error);
+
+      // Handle MongoDB validation errors
+      if (error instanceof Error && error.name === "ValidationError") {
+        const validationError = error as mongoose.Error.ValidationError;
+        return {
+          success: false,
+          error: Object.values(validationError.errors)
+            .map((err) => err.message)
+            .join(", "),
+          statusCode: 400,
+        };
+      }
+
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+      };
+    }
+  }
+
+  /**
+   * Verify credentials and return a session token
+   */
+  async login(data: LoginData): Promise<AuthServiceResponse> {
+    try {
+      const email = data.email.trim().toLowerCase();
+      const user = await User.findOne({ email }).select("+passwordHash");
+
+      // Same response for unknown email and wrong password
+      if (!user || !(await this.verifyPassword(data.password, user.passwordHash))) {
+        return {
+          success: false,
+          error: "Invalid email or password",
+          statusCode: 401,
+        };
+      }
+
+      user.lastLoginAt = new Date();
+      await user.save();
+
+      return {
+        success: true,
+        token: this.signToken(user),
+        user: this.toPublicUser(user),
+      };
+    } catch (error) {
+      console.error("❌ Error in login:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+      };
+    }
+  }
+
+  /**
+   * Get the public profile of an account
+   */
+  async getUserById(userId: string): Promise<PublicUser | null> {
+    if (!mongoose.Types.ObjectId.isValid(userId)) return null;
+
+    const user = await User.findById(userId);
+    return user ? this.toPublicUser(user) : null;
+  }
+
+  /**
+   * Resolve a session token to its account with the account's current plan
+   * (returns null if the token is invalid or expired, or the account is gone)
+   */
+  async authenticateToken(token: string): Promise<AuthUser | null> {
+    const session = this.verifyToken(token);
+    if (!session) return null;
+
+    const plan = await this.getCurrentPlan(session.id);
+    return plan ? { ...session, plan } : null;
+  }
+
+  /**
+   * Decode a session token (returns null if invalid or expired)
+   */
+  verifyToken(token: string): Omit<AuthUser, "plan"> | null {
+    try {
+      const payload = jwt.verify(token, JWT_SECRET) as jwt.JwtPayload;
+
+      if (!payload.sub || !payload.email) return null;
+
+      return { id: payload.sub, email: payload.email };
+    } catch {
+      return null;
+    }
+  }
+
+  private signToken(user: IUser): string {
+    return jwt.sign(
+      { email: user.email },
+      JWT_SECRET,
+      {
+        subject: user._id.toString(),
+        expiresIn: JWT_EXPIRES_IN as jwt.SignOptions["expiresIn"],
+      },
+    );
+  }
+
+  // Current plan of an account, or null if it no longer exists
+  // Falls back to "free" if the database can't be reached
+  private async getCurrentPlan(userId: string): Promise<PlanName | null> {
+    const cached = await planCache.get<PlanName>(userId);
+    if (cached) return cached;
+
+    if (!mongoose.Types.ObjectId.isValid(userId)) return null;
+
+    try {
+      const user = await User.findById(userId).select("plan").lean();
+      if (!user) return null;
+
+      const plan = isPlanName(user.plan) ? user.plan : "free";
+      await planCache.set(userId, plan);
+      return plan;
+    } catch (error) {
+      console.error("❌ Error loading account plan:", error);
+      return "free";
+    }
+  }
+
+  // Passwords are stored as scrypt$<salt>$<hash>
+  private async hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16).toString("hex");
+    const hash = await scrypt(password, salt, KEY_LENGTH);
+    return `scrypt$${salt}$${hash.toString("hex")}`;
+  }
+
+  private async verifyPassword(
+    password: string,
+    stored: string,
+  ): Promise<boolean> {
+    const [scheme, salt, hashHex] = stored.split("$");
+    if (scheme !== "scrypt" || !salt || !hashHex) return false;
+
+    const expected = Buffer.from(hashHex, "hex");
+    const actual = await scrypt(password, salt, expected.length);
+    return crypto.timingSafeEqual(expected, actual);
+  }
+
+  private toPublicUser(user: IUser): PublicUser {
+    return {
+      id: user._id.toString(),
+      email: user.email,
+      name: user.name || undefined,
+      plan: user.plan,
+      createdAt: user.createdAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const authService = new AuthService();
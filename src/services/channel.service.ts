@@ -0,0 +1,243 @@
+// services/channel.service.ts
+import youtubeService from "./youtube.service";
+import { shortsClassifier } from "./shorts.service";
+import { parseDurationToMinutes, percentile } from "../utils/helpers";
+import { RedisCache, cacheKey } from "../utils/redisCache";
+import type { ChannelReport, ChannelReportVideo } from "../utils/interfaces";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Recent uploads a report is based on (one playlistItems page)
+const REPORT_SAMPLE_SIZE = 50;
+
+// Videos listed as best and worst
+const HIGHLIGHT_COUNT = 3;
+
+// Uploads younger than this are still gathering views, so they can't be "worst"
+const MIN_AGE_FOR_WORST_MS = 3 * DAY_MS;
+
+// Engagement change (percent) below which the trend counts as stable
+const STABLE_TREND_PERCENT = 10;
+
+const reportCache = new RedisCache("channel-reports", {
+  ttlMs: 6 * 60 * 60 * 1000, // 6 hours
+  maxEntries: 5000,
+});
+
+const median = (values: number[]): number =>
+  Math.round(percentile([...values].sort((a, b) => a - b), 50));
+
+interface UploadMetrics extends ChannelReportVideo {
+  publishedMs: number;
+}
+
+class ChannelService {
+  /**
+   * Profile a channel from its recent uploads (cached for 6 hours)
+   * Returns null when the channel does not exist
+   */
+  async getReport(channelIdOrHandle: string): Promise<ChannelReport | null> {
+    const channelId = await youtubeService.resolveChannelId(channelIdOrHandle);
+    if (!channelId) return null;
+
+    const cached = await reportCache.get<ChannelReport>(cacheKey(channelId));
+    if (cached) {
+      console.log(`✅ Returning cached channel report for ${channelId}`);
+      return cached;
+    }
+
+    const report = await this.buildReport(channelId);
+    if (report) {
+      await reportCache.set(cacheKey(channelId), report);
+    }
+    return report;
+  }
+
+  private async buildReport(channelId: string): Promise<ChannelReport | null> {
+    const channel = await youtubeService.getChannelInfo(channelId);
+    if (!channel) return null;
+
+    console.log(`📺 Building channel report for ${channel.snippet.title}`);
+
+    const uploads = await youtubeService.getRecentUploads(
+      channelId,
+      REPORT_SAMPLE_SIZE,
+    );
+
+    const shorts = await shortsClassifier.classify(
+      uploads.map((v) => ({
+        id: v.id,
+        durationSeconds: Math.round(
+          parseDurationToMinutes(v.contentDetails?.duration || "PT0M") * 60,
+        ),
+        title: v.snippet.title,
+        description: v.snippet.description,
+        tags: v.snippet.tags,
+      })),
+    );
+
+    // Newest first, as returned by getRecentUploads
+    const videos: UploadMetrics[] = uploads.map((v) => {
+      const views = parseInt(v.statistics?.viewCount || "0");
+      const likes = parseInt(v.statistics?.likeCount || "0");
+      const comments = parseInt(v.statistics?.commentCount || "0");
+
+      return {
+        id: v.id,
+        title: v.snippet.title,
+        videoUrl: `https://www.youtube.com/watch?v=${v.id}`,
+        publishedAt: v.snippet.publishedAt,
+        publishedMs: new Date(v.snippet.publishedAt).getTime(),
+        views,
+        engagementRate:
+          views > 0
+            ? Math.round(((likes + comments) / views) * 10000) / 100
+            : 0,
+        durationMins:
+          Math.round(
+            parseDurationToMinutes(v.contentDetails?.duration || "PT0M") * 10,
+          ) / 10,
+        isShort: shorts[v.id]?.isShort ?? false,
+      };
+    });
+
+    const shortVideos = videos.filter((v) => v.isShort);
+    const longFormVideos = videos.filter((v) => !v.isShort);
+    const hiddenSubscribers = channel.statistics.hiddenSubscriberCount === true;
+
+    return {
+      channel: {
+        id: channel.id,
+        title: channel.snippet.title,
+        handle: channel.snippet.customUrl || null,
+        channelUrl: `https://www.youtube.com/channel/${channel.id}`,
+        thumbnail:
+          channel.snippet.thumbnails?.high?.url ||
+          channel.snippet.thumbnails?.default?.url ||
+          "",
+        subscribers: hiddenSubscribers
+          ? null
+          : parseInt(channel.statistics.subscriberCount || "0"),
+        totalViews: parseInt(channel.statistics.viewCount || "0"),
+        videoCount: parseInt(channel.statistics.videoCount || "0"),
+        createdAt: channel.snippet.publishedAt || null,
+      },
+      sampleSize: videos.length,
+      uploadCadence: this.getUploadCadence(videos),
+      medianViews: median(videos.map((v) => v.views)),
+      bestVideos: [...videos]
+        .sort((a, b) => b.views - a.views)
+        .slice(0, HIGHLIGHT_COUNT)
+        .map(this.toReportVideo),
+      worstVideos: videos
+        .filter((v) => Date.now() - v.publishedMs >= MIN_AGE_FOR_WORST_MS)
+        .sort((a, b) => a.views - b.views)
+        .slice(0, HIGHLIGHT_COUNT)
+        .map(this.toReportVideo),
+      typicalLength: {
+        medianMins: median(videos.map((v) => v.durationMins)),
+        longFormMedianMins:
+          longFormVideos.length > 0
+            ? median(longFormVideos.map((v) => v.durationMins))
+            : null,
+      },
+      formatMix: {
+        shorts: shortVideos.length,
+        longForm: longFormVideos.length,
+        shortsShare:
+          videos.length > 0
+            ? Math.round((shortVideos.length / videos.length) * 100)
+            : 0,
+        shortsMedianViews:
+          shortVideos.length > 0
+            ? median(shortVideos.map((v) => v.views))
+            : null,
+        longFormMedianViews:
+          longFormVideos.length > 0
+            ? median(longFormVideos.map((v) => v.views))
+            : null,
+      },
+      engagementTrend: this.getEngagementTrend(videos),
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  // ========================================
+  // PRIVATE HELPER METHODS
+  // ========================================
+
+  private getUploadCadence(
+    videos: UploadMetrics[],
+  ): ChannelReport["uploadCadence"] {
+    if (videos.length === 0) {
+      return {
+        uploadsPerWeek: 0,
+        medianDaysBetweenUploads: null,
+        lastUploadAt: null,
+        daysSinceLastUpload: null,
+      };
+    }
+
+    const newest = videos[0]!;
+    const oldest = videos[videos.length - 1]!;
+
+    // Gaps between consecutive uploads, in days
+    const gaps = videos
+      .slice(1)
+      .map((v, i) => (videos[i]!.publishedMs - v.publishedMs) / DAY_MS);
+
+    // Weeks covered by the sample, counted up to today so a channel
+    // that stopped uploading shows a falling rate
+    const spanWeeks = Math.max((Date.now() - oldest.publishedMs) / (7 * DAY_MS), 1);
+
+    return {
+      uploadsPerWeek: Math.round((videos.length / spanWeeks) * 10) / 10,
+      medianDaysBetweenUploads:
+        gaps.length > 0
+          ? Math.round(percentile([...gaps].sort((a, b) => a - b), 50) * 10) / 10
+          : null,
+      lastUploadAt: newest.publishedAt,
+      daysSinceLastUpload: Math.floor((Date.now() - newest.publishedMs) / DAY_MS),
+    };
+  }
+
+  // Compare engagement on the newer half of the sample with the older half
+  private getEngagementTrend(
+    videos: UploadMetrics[],
+  ): ChannelReport["engagementTrend"] {
+    const chronological = [...videos].reverse();
+    const points = chronological.map((v) => ({
+      publishedAt: v.publishedAt,
+      engagementRate: v.engagementRate,
+    }));
+
+    if (chronological.length < 4) {
+      return { direction: "stable", changePercent: 0, points };
+    }
+
+    const mid = Math.floor(chronological.length / 2);
+    const older = median(chronological.slice(0, mid).map((v) => v.engagementRate * 100));
+    const newer = median(chronological.slice(mid).map((v) => v.engagementRate * 100));
+    const changePercent =
+      older > 0 ? Math.round(((newer - older) / older) * 100) : 0;
+
+    return {
+      direction:
+        changePercent >= STABLE_TREND_PERCENT
+          ? "rising"
+          : changePercent <= -STABLE_TREND_PERCENT
+            ? "declining"
+            : "stable",
+      changePercent,
+      points,
+    };
+  }
+
+  private toReportVideo(video: UploadMetrics): ChannelReportVideo {
+    const { publishedMs, ...reportVideo } = video;
+    return reportVideo;
+  }
+}
+
+// Export singleton instance
+export const channelService = new ChannelService();
@@ -0,0 +1,178 @@
+// services/content-gap.service.ts
+import { percentile } from "../utils/helpers";
+import type {
+  ContentGap,
+  TitleAnalysis,
+  TitleFormatStats,
+} from "../utils/interfaces";
+
+// ========================================
+// CONTENT GAPS
+// Classifies a keyword's top videos by the format their titles signal and
+// compares each format's views with how often it shows up. A format that
+// few videos use but that outperforms the keyword's typical video is a gap.
+// ========================================
+
+type TitleFormat = keyof TitleAnalysis;
+
+const FORMATS: Record<
+  TitleFormat,
+  { label: string; pattern: RegExp; idea: (keyword: string) => string }
+> = {
+  hasTutorial: {
+    label: "Tutorial",
+    pattern: /\btutorials?\b|\bstep[- ]by[- ]step\b|\bwalkthrough\b/i,
+    idea: (k) => `${k} tutorial: step by step`,
+  },
+  hasComparison: {
+    label: "Comparison",
+    pattern: /\bvs\.?\b|\bversus\b|\bcompar(e|ed|ing|ison)\b|\bbetter than\b/i,
+    idea: (k) => `${k} vs the alternatives: which is better?`,
+  },
+  hasBeginnerGuide: {
+    label: "Beginner guide",
+    pattern: /\bbeginners?\b|\bnewbies?\b|\bgetting started\b|\bbasics\b|\b101\b/i,
+    idea: (k) => `${k} for beginners`,
+  },
+  hasGuide: {
+    label: "Guide",
+    pattern: /\bguide\b|\bexplained\b|\beverything you need\b|\bcomplete\b/i,
+    idea: (k) => `The complete ${k} guide`,
+  },
+  hasReview: {
+    label: "Review",
+    pattern: /\breviews?\b|\bworth it\b|\bhonest\b|\bafter \d+ (days?|weeks?|months?|years?)\b/i,
+    idea: (k) => `${k}: honest review`,
+  },
+  hasTips: {
+    label: "Tips & tricks",
+    pattern: /\btips?\b|\btricks?\b|\bhacks?\b|\bmistakes?\b|\bsecrets?\b/i,
+    idea: (k) => `${k} tips nobody tells you`,
+  },
+  hasHow: {
+    label: "How-to",
+    pattern: /\bhow (to|i|we|you)\b/i,
+    idea: (k) => `How to get started with ${k}`,
+  },
+  hasTop: {
+    label: "Top list",
+    pattern: /\btop \d+\b|\b\d+ (best|ways|things|tips|reasons|mistakes)\b|\bbest\b/i,
+    idea: (k) => `Top 10 ${k} picks`,
+  },
+};
+
+// Formats used by more than this share of videos are well supplied
+const MAX_GAP_SHARE = 0.2;
+
+// Median views, relative to the keyword's median, that count as high demand
+const MIN_GAP_VIEWS_INDEX = 1.3;
+
+// One video says more about that video than about its format
+const MIN_FORMAT_VIDEOS = 2;
+
+const MAX_GAPS = 5;
+
+export interface TitledVideo {
+  title: string;
+  views: number;
+}
+
+const formatViews = (views: number): string =>
+  views >= 1_000_000
+    ? `${(views / 1_000_000).toFixed(1)}M`
+    : views >= 1_000
+      ? `${Math.round(views / 1_000)}K`
+      : `${Math.round(views)}`;
+
+class ContentGapAnalyzer {
+  /**
+   * Which formats a title signals (a title can signal several)
+   */
+  analyzeTitle(title: string): TitleAnalysis {
+    const analysis = {} as TitleAnalysis;
+    for (const format of Object.keys(FORMATS) as TitleFormat[]) {
+      analysis[format] = FORMATS[format].pattern.test(title);
+    }
+    return analysis;
+  }
+
+  /**
+   * Supply (share of videos) and demand (median views vs. the keyword's
+   * median) of every format, most in demand first
+   */
+  getFormatStats(videos: TitledVideo[]): TitleFormatStats[] {
+    return this.measureFormats(videos)
+      .map(({ format, views, share, viewsIndex }) => ({
+        format: FORMATS[format].label,
+        videos: views.length,
+        share: Math.round(share * 100),
+        medianViews: Math.round(percentile(views, 50)),
+        viewsIndex: viewsIndex === null ? null : Math.round(viewsIndex * 100),
+      }))
+      .sort((a, b) => (b.viewsIndex ?? -1) - (a.viewsIndex ?? -1));
+  }
+
+  /**
+   * Formats that are rare among a keyword's top videos but get well above
+   * its typical views, best opportunity first
+   */
+  findGaps(keyword: string, videos: TitledVideo[]): ContentGap[] {
+    const total = videos.length;
+
+    return this.measureFormats(videos)
+      .filter(
+        ({ views, share, viewsIndex }) =>
+          views.length >= MIN_FORMAT_VIDEOS &&
+          share <= MAX_GAP_SHARE &&
+          (viewsIndex ?? 0) >= MIN_GAP_VIEWS_INDEX,
+      )
+      // Demand per unit of supply
+      .sort((a, b) => b.viewsIndex! / b.share - a.viewsIndex! / a.share)
+      .slice(0, MAX_GAPS)
+      .map(({ format, views, share, viewsIndex }) => {
+        const { label, idea } = FORMATS[format];
+        const medianViews = formatViews(percentile(views, 50));
+
+        return {
+          format: label,
+          reason: `${views.length} of the top ${total} videos (${Math.round(share * 100)}%) use this format, yet their median ${medianViews} views are ${viewsIndex!.toFixed(1)}x the keyword's typical video`,
+          gap: `Under-supplied ${label.toLowerCase()} content, e.g. "${idea(keyword)}"`,
+          potentialViews: `${medianViews}-${formatViews(percentile(views, 75))}`,
+          competitionLevel:
+            share <= 0.05 ? "low" : share <= 0.1 ? "medium" : "high",
+        };
+      });
+  }
+
+  // ========================================
+  // PRIVATE HELPER METHODS
+  // ========================================
+
+  // Views (ascending), share of videos and views index (1 = typical) per format
+  private measureFormats(videos: TitledVideo[]) {
+    const overallMedian = percentile(
+      videos.map((v) => v.views).sort((a, b) => a - b),
+      50,
+    );
+    const analyses = videos.map((v) => this.analyzeTitle(v.title));
+
+    return (Object.keys(FORMATS) as TitleFormat[]).map((format) => {
+      const views = videos
+        .filter((_, i) => analyses[i]![format])
+        .map((v) => v.views)
+        .sort((a, b) => a - b);
+
+      return {
+        format,
+        views,
+        share: videos.length > 0 ? views.length / videos.length : 0,
+        viewsIndex:
+          views.length > 0 && overallMedian > 0
+            ? percentile(views, 50) / overallMedian
+            : null,
+      };
+    });
+  }
+}
+
+export const contentGapAnalyzer = new ContentGapAnalyzer();
@@ -0,0 +1,137 @@
+// services/history.service.ts
+import HistoryEntry from "../models/HistoryEntry";
+import type { HistoryResultType } from "../models/HistoryEntry";
+import VideoAnalysis from "../models/VideoAnalysis";
+import type { HistoryTool } from "../config/plans";
+
+interface RecordHistoryData {
+  userId: string;
+  tool: HistoryTool;
+  inputs: Record<string, unknown>;
+  resultType: HistoryResultType;
+  resultId?: string;
+  result?: unknown;
+}
+
+interface ListHistoryOptions {
+  tool?: HistoryTool;
+  page: number;
+  limit: number;
+}
+
+export interface HistoryItem {
+  id: string;
+  tool: HistoryTool;
+  inputs: Record<string, unknown>;
+  resultType: HistoryResultType;
+  resultId?: string;
+  result?: unknown;
+  status?: string;
+  createdAt: Date;
+}
+
+export interface HistoryPage {
+  entries: HistoryItem[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasMore: boolean;
+  };
+}
+
+export class HistoryService {
+  /**
+   * Record one use of a feature
+   * Never throws: history must not break the feature itself
+   */
+  async record(data: RecordHistoryData): Promise<void> {
+    try {
+      await HistoryEntry.create({
+        userId: data.userId,
+        tool: data.tool,
+        inputs: data.inputs,
+        resultType: data.resultType,
+        resultId: data.resultId || null,
+        result: data.result ?? null,
+      });
+    } catch (error) {
+      console.error(`❌ Failed to record ${data.tool} history:`, error);
+    }
+  }
+
+  /**
+   * Whether anyone other than `userId` has a history entry pointing at
+   * a result (e.g. users attached to the same in-flight analysis)
+   */
+  async isSharedWithOthers(resultId: string, userId: string): Promise<boolean> {
+    const entry = await HistoryEntry.exists({
+      resultId,
+      userId: { $ne: userId },
+    });
+    return entry !== null;
+  }
+
+  /**
+   * List a user's history, newest first
+   */
+  async list(userId: string, options: ListHistoryOptions): Promise<HistoryPage> {
+    const query: Record<string, unknown> = { userId };
+    if (options.tool) {
+      query.tool = options.tool;
+    }
+
+    const [total, docs] = await Promise.all([
+      HistoryEntry.countDocuments(query),
+      HistoryEntry.find(query)
+        .sort({ createdAt: -1 })
+        .skip((options.page - 1) * options.limit)
+        .limit(options.limit)
+        .lean(),
+    ]);
+
+    // Attach the current status of referenced comment analyses
+    const jobIds = docs
+      .filter((doc) => doc.resultType === "video-analysis" && doc.resultId)
+      .map((doc) => doc.resultId as string);
+
+    const statuses = new Map<string, string>();
+    if (jobIds.length > 0) {
+      const analyses = await VideoAnalysis.find({ jobId: { $in: jobIds } })
+        .select("jobId status")
+        .lean();
+      analyses.forEach((analysis) => statuses.set(analysis.jobId, analysis.status));
+    }
+
+    const entries: HistoryItem[] = docs.map((doc) => ({
+      id: doc._id.toString(),
+      tool: doc.tool,
+      inputs: doc.inputs,
+      resultType: doc.resultType,
+      resultId: doc.resultId || undefined,
+      result: doc.result ?? undefined,
+      status:
+        doc.resultType === "video-analysis" && doc.resultId
+          ? statuses.get(doc.resultId) || "expired"
+          : "completed",
+      createdAt: doc.createdAt,
+    }));
+
+    const totalPages = Math.ceil(total / options.limit);
+
+    return {
+      entries,
+      pagination: {
+        page: options.page,
+        limit: options.limit,
+        total,
+        totalPages,
+        hasMore: options.page < totalPages,
+      },
+    };
+  }
+}
+
+// Export singleton instance
+export const historyService = new HistoryService();
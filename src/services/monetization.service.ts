@@ -0,0 +1,293 @@
+// services/monetization.service.ts
+import type { youtube_v3 } from "googleapis";
+import { shortsClassifier, toShortsCandidate } from "./shorts.service";
+import type {
+  MonetizationRates,
+  RateRange,
+  RevenueEstimate,
+} from "../utils/interfaces";
+
+// ========================================
+// MONETIZATION MODEL
+// One place for every revenue number the app shows. Long-form CPMs are
+// US ranges per YouTube category, scaled by a regional multiplier, and
+// turned into RPM (what the creator earns per 1,000 views). Shorts are
+// paid from a pooled ad share instead, so they get their own RPM range.
+// ========================================
+
+interface CategoryCpm extends RateRange {
+  label: string;
+}
+
+// US long-form CPM (USD per 1,000 ad impressions) by YouTube category ID
+const CATEGORY_CPM: Record<string, CategoryCpm> = {
+  "1": { low: 3, high: 8, label: "Film & Animation" },
+  "2": { low: 6, high: 15, label: "Autos & Vehicles" },
+  "10": { low: 1, high: 4, label: "Music" },
+  "15": { low: 2, high: 6, label: "Pets & Animals" },
+  "17": { low: 3, high: 8, label: "Sports" },
+  "18": { low: 2, high: 6, label: "Short Movies" },
+  "19": { low: 4, high: 10, label: "Travel & Events" },
+  "20": { low: 3, high: 9, label: "Gaming" },
+  "21": { low: 2, high: 5, label: "Videoblogging" },
+  "22": { low: 2, high: 5, label: "People & Blogs" },
+  "23": { low: 1.5, high: 5, label: "Comedy" },
+  "24": { low: 1, high: 4, label: "Entertainment" },
+  "25": { low: 2, high: 7, label: "News & Politics" },
+  "26": { low: 4, high: 10, label: "Howto & Style" },
+  "27": { low: 2, high: 6, label: "Education" },
+  "28": { low: 8, high: 20, label: "Science & Technology" },
+  "29": { low: 2, high: 6, label: "Nonprofits & Activism" },
+  "30": { low: 2, high: 6, label: "Movies" },
+  "31": { low: 2, high: 6, label: "Anime/Animation" },
+  "32": { low: 2, high: 6, label: "Action/Adventure" },
+  "33": { low: 2, high: 5, label: "Classics" },
+  "34": { low: 1.5, high: 5, label: "Comedy" },
+  "35": { low: 3, high: 8, label: "Documentary" },
+  "36": { low: 2, high: 6, label: "Drama" },
+  "37": { low: 3, high: 7, label: "Family" },
+  "38": { low: 1.5, high: 4, label: "Foreign" },
+  "39": { low: 2, high: 6, label: "Horror" },
+  "40": { low: 2, high: 6, label: "Sci-Fi/Fantasy" },
+  "41": { low: 2, high: 6, label: "Thriller" },
+  "42": { low: 1, high: 3, label: "Shorts" },
+  "43": { low: 2, high: 6, label: "Shows" },
+  "44": { low: 2, high: 5, label: "Trailers" },
+};
+
+const DEFAULT_CATEGORY: CategoryCpm = { low: 2, high: 5, label: "General" };
+
+interface Region {
+  multiplier: number; // Relative to US rates
+  label: string;
+}
+
+// Ad rates by audience country (ISO 3166-1 alpha-2), relative to the US
+const REGION_MULTIPLIERS: Record<string, Region> = {
+  US: { multiplier: 1, label: "United States" },
+  CA: { multiplier: 0.8, label: "Canada" },
+  GB: { multiplier: 0.8, label: "United Kingdom" },
+  AU: { multiplier: 0.85, label: "Australia" },
+  NZ: { multiplier: 0.7, label: "New Zealand" },
+  IE: { multiplier: 0.7, label: "Ireland" },
+  DE: { multiplier: 0.75, label: "Germany" },
+  CH: { multiplier: 0.85, label: "Switzerland" },
+  AT: { multiplier: 0.65, label: "Austria" },
+  NL: { multiplier: 0.65, label: "Netherlands" },
+  BE: { multiplier: 0.6, label: "Belgium" },
+  FR: { multiplier: 0.55, label: "France" },
+  NO: { multiplier: 0.8, label: "Norway" },
+  DK: { multiplier: 0.7, label: "Denmark" },
+  SE: { multiplier: 0.65, label: "Sweden" },
+  FI: { multiplier: 0.55, label: "Finland" },
+  IT: { multiplier: 0.4, label: "Italy" },
+  ES: { multiplier: 0.4, label: "Spain" },
+  PT: { multiplier: 0.3, label: "Portugal" },
+  PL: { multiplier: 0.3, label: "Poland" },
+  JP: { multiplier: 0.5, label: "Japan" },
+  KR: { multiplier: 0.45, label: "South Korea" },
+  SG: { multiplier: 0.5, label: "Singapore" },
+  HK: { multiplier: 0.45, label: "Hong Kong" },
+  AE: { multiplier: 0.45, label: "United Arab Emirates" },
+  SA: { multiplier: 0.35, label: "Saudi Arabia" },
+  IL: { multiplier: 0.4, label: "Israel" },
+  ZA: { multiplier: 0.25, label: "South Africa" },
+  MX: { multiplier: 0.2, label: "Mexico" },
+  BR: { multiplier: 0.2, label: "Brazil" },
+  AR: { multiplier: 0.12, label: "Argentina" },
+  CO: { multiplier: 0.12, label: "Colombia" },
+  TR: { multiplier: 0.12, label: "Turkey" },
+  RU: { multiplier: 0.1, label: "Russia" },
+  IN: { multiplier: 0.1, label: "India" },
+  ID: { multiplier: 0.1, label: "Indonesia" },
+  TH: { multiplier: 0.12, label: "Thailand" },
+  MY: { multiplier: 0.15, label: "Malaysia" },
+  PH: { multiplier: 0.08, label: "Philippines" },
+  VN: { multiplier: 0.08, label: "Vietnam" },
+  EG: { multiplier: 0.08, label: "Egypt" },
+  NG: { multiplier: 0.07, label: "Nigeria" },
+  PK: { multiplier: 0.06, label: "Pakistan" },
+  BD: { multiplier: 0.05, label: "Bangladesh" },
+};
+
+// No region given: a typical worldwide audience, weighted towards the US
+const GLOBAL_REGION: Region = { multiplier: 0.55, label: "Global audience mix" };
+
+// Countries missing from the table are mostly low-CPM markets
+const UNLISTED_REGION_MULTIPLIER = 0.25;
+
+// Share of long-form views that actually show an ad
+const MONETIZED_VIEW_RATE = 0.55;
+
+// Creator's share of ad revenue (YouTube Partner Program)
+const LONG_FORM_CREATOR_SHARE = 0.55;
+const SHORTS_CREATOR_SHARE = 0.45;
+
+// US Shorts ad pool per 1,000 views, before the creator share
+const SHORTS_US_POOL_RATE: RateRange = { low: 0.09, high: 0.22 };
+
+export interface RevenueOptions {
+  views: number; // Views to estimate revenue for (e.g. average per video)
+  categoryId?: string;
+  region?: string; // ISO 3166-1 alpha-2; omitted = global audience
+  shortsShare?: number; // 0-1, share of those views coming from Shorts
+}
+
+// What a set of videos says about how its views are monetized
+export type RevenueProfile = Omit<RevenueOptions, "views">;
+
+// Shorts rates are fractions of a cent, so keep three decimals
+const round = (value: number, decimals = 3): number =>
+  Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+const scale = (range: RateRange, factor: number): RateRange => ({
+  low: round(range.low * factor),
+  high: round(range.high * factor),
+});
+
+// "$2.40-$6.05": whole dollars from $10, tenths of a cent below $0.10
+export const formatUsdRange = (range: RateRange): string => {
+  const format = (value: number) =>
+    value >= 10
+      ? `$${Math.round(value).toLocaleString()}`
+      : `$${value.toFixed(value >= 0.1 || value === 0 ? 2 : 3)}`;
+  return `${format(range.low)}-${format(range.high)}`;
+};
+
+class MonetizationModel {
+  /**
+   * Long-form and Shorts rates for a category and audience region
+   */
+  getRates(
+    categoryId?: string,
+    region?: string,
+  ): { longForm: MonetizationRates; shorts: MonetizationRates } {
+    const category = (categoryId && CATEGORY_CPM[categoryId]) || DEFAULT_CATEGORY;
+    const { code, multiplier, label } = this.resolveRegion(region);
+
+    const cpm = scale(category, multiplier);
+    const base = {
+      categoryId: categoryId && CATEGORY_CPM[categoryId] ? categoryId : "default",
+      categoryLabel: category.label,
+      region: code,
+      regionLabel: label,
+      regionMultiplier: multiplier,
+    };
+
+    return {
+      longForm: {
+        ...base,
+        format: "longForm",
+        cpm,
+        rpm: scale(cpm, MONETIZED_VIEW_RATE * LONG_FORM_CREATOR_SHARE),
+      },
+      shorts: {
+        ...base,
+        format: "shorts",
+        cpm: null,
+        rpm: scale(SHORTS_US_POOL_RATE, multiplier * SHORTS_CREATOR_SHARE),
+      },
+    };
+  }
+
+  /**
+   * Most common category and Shorts share of views for a set of videos
+   * (videos.list items with the snippet, contentDetails and statistics parts)
+   */
+  async profileFromVideos(
+    videos: youtube_v3.Schema$Video[],
+    region?: string,
+  ): Promise<RevenueProfile> {
+    const categoryCounts: Record<string, number> = {};
+    for (const video of videos) {
+      const categoryId = video.snippet?.categoryId;
+      if (categoryId) {
+        categoryCounts[categoryId] = (categoryCounts[categoryId] || 0) + 1;
+      }
+    }
+    const categoryId = Object.entries(categoryCounts).sort(
+      (a, b) => b[1] - a[1],
+    )[0]?.[0];
+
+    const shorts = await shortsClassifier.classify(videos.map(toShortsCandidate));
+    let totalViews = 0;
+    let shortsViews = 0;
+    for (const video of videos) {
+      const views = parseInt(video.statistics?.viewCount || "0");
+      totalViews += views;
+      if (shorts[video.id || ""]?.isShort) shortsViews += views;
+    }
+
+    return {
+      categoryId,
+      region,
+      shortsShare: totalViews > 0 ? shortsViews / totalViews : 0,
+    };
+  }
+
+  /**
+   * Revenue range for a number of views, split between long-form and
+   * Shorts by `shortsShare`, with the assumptions behind it
+   */
+  estimate(options: RevenueOptions): RevenueEstimate {
+    const { longForm, shorts } = this.getRates(options.categoryId, options.region);
+    const shortsShare = Math.min(Math.max(options.shortsShare ?? 0, 0), 1);
+    const longFormViews = options.views * (1 - shortsShare);
+    const shortsViews = options.views * shortsShare;
+
+    const revenueAt = (key: keyof RateRange) =>
+      round(
+        (longFormViews * longForm.rpm[key] + shortsViews * shorts.rpm[key]) / 1000,
+        2,
+      );
+
+    return {
+      revenue: { low: revenueAt("low"), high: revenueAt("high") },
+      views: Math.round(options.views),
+      shortsShare: Math.round(shortsShare * 100),
+      longForm,
+      shorts,
+      assumptions: this.explain(longForm, shorts, shortsShare),
+    };
+  }
+
+  // ========================================
+  // PRIVATE HELPER METHODS
+  // ========================================
+
+  private resolveRegion(region?: string): Region & { code: string } {
+    const code = region?.toUpperCase();
+    if (!code || code === "GLOBAL") return { ...GLOBAL_REGION, code: "GLOBAL" };
+
+    const known = REGION_MULTIPLIERS[code];
+    if (known) return { ...known, code };
+
+    return {
+      code,
+      multiplier: UNLISTED_REGION_MULTIPLIER,
+      label: `${code} (no regional data)`,
+    };
+  }
+
+  private explain(
+    longForm: MonetizationRates,
+    shorts: MonetizationRates,
+    shortsShare: number,
+  ): string[] {
+    const assumptions = [
+      `Long-form CPM for ${longForm.categoryLabel} in ${longForm.regionLabel}: ${formatUsdRange(longForm.cpm!)} per 1,000 ad impressions (${longForm.regionMultiplier}x US rates)`,
+      `Long-form RPM ${formatUsdRange(longForm.rpm)} assumes ${Math.round(MONETIZED_VIEW_RATE * 100)}% of views show an ad and the creator keeps ${Math.round(LONG_FORM_CREATOR_SHARE * 100)}% of ad revenue`,
+      `Shorts RPM ${formatUsdRange(shorts.rpm)}: Shorts are paid from a pooled ad share of ${formatUsdRange(scale(SHORTS_US_POOL_RATE, shorts.regionMultiplier))} per 1,000 views, of which the creator keeps ${Math.round(SHORTS_CREATOR_SHARE * 100)}%, so category doesn't change the rate`,
+    ];
+
+    if (shortsShare > 0) {
+      assumptions.push(
+        `${Math.round(shortsShare * 100)}% of the sampled views came from Shorts`,
+      );
+    }
+
+    return assumptions;
+  }
+}
+
+export const monetizationModel = new MonetizationModel();
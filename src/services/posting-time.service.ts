@@ -0,0 +1,241 @@
+// services/posting-time.service.ts
+import { percentile } from "../utils/helpers";
+import type {
+  AdvancedSearchTopic,
+  PostingBucketStats,
+  PostingDay,
+  PostingSchedule,
+  PostingSlot,
+  ScheduleConfidence,
+} from "../utils/interfaces";
+
+// ========================================
+// POSTING TIMES
+// Buckets a niche's videos by the weekday and hour they went out, in the
+// caller's time zone, and compares how each bucket did. Young videos are
+// judged on early velocity and settled ones on final views, both relative
+// to the niche's median, so the two can be pooled in one score.
+// ========================================
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Videos up to a week old are judged on views per hour so far...
+const EARLY_WINDOW_MS = 7 * DAY_MS;
+// ...once they've had a few hours, or the rate is mostly noise
+const MIN_EARLY_AGE_MS = 6 * HOUR_MS;
+
+// Videos older than this are judged on views (in between, neither fits)
+const SETTLED_AGE_MS = 14 * DAY_MS;
+
+// Hours per slot; single hours are too sparse for a 50-video sample
+const SLOT_HOURS = 3;
+
+// Imaginary typical videos added to every bucket, so a slot needs
+// several strong videos before its score moves far from 100
+const PRIOR_WEIGHT = 4;
+
+// One viral video counts as at most this many typical ones
+const MAX_VIDEO_INDEX = 3;
+
+// A single video is never enough to recommend a window
+const MIN_BEST_SLOT_SAMPLES = 2;
+
+const WEEKDAYS = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+
+export interface PublishedVideo {
+  publishedAt: string;
+  views: number;
+}
+
+interface ScoredVideo {
+  day: string;
+  hour: number;
+  earlyIndex: number | null;
+  finalIndex: number | null;
+}
+
+const median = (values: number[]): number =>
+  percentile([...values].sort((a, b) => a - b), 50);
+
+const pad = (hour: number): string => `${String(hour).padStart(2, "0")}:00`;
+
+class PostingTimeAnalyzer {
+  private formatters = new Map<string, Intl.DateTimeFormat>();
+
+  /**
+   * Rank publish days and time windows for a set of videos from one niche
+   * `timeZone` must be a valid IANA name (validated by the caller)
+   */
+  analyze(videos: PublishedVideo[], timeZone: string): PostingSchedule {
+    const scored = this.scoreVideos(videos, timeZone);
+
+    const bySlot = new Map<string, ScoredVideo[]>();
+    const byDay = new Map<string, ScoredVideo[]>();
+    for (const video of scored) {
+      const start = video.hour - (video.hour % SLOT_HOURS);
+      const slotKey = `${video.day}|${start}`;
+      bySlot.set(slotKey, [...(bySlot.get(slotKey) || []), video]);
+      byDay.set(video.day, [...(byDay.get(video.day) || []), video]);
+    }
+
+    const slots: PostingSlot[] = Array.from(bySlot.entries())
+      .map(([slotKey, bucket]) => {
+        const [day, start] = slotKey.split("|");
+        const hour = parseInt(start!, 10);
+        return {
+          day: day!,
+          time: pad(hour),
+          window: `${pad(hour)}-${pad((hour + SLOT_HOURS) % 24)}`,
+          ...this.bucketStats(bucket),
+        };
+      })
+      .sort((a, b) => b.score - a.score || b.sampleSize - a.sampleSize);
+
+    const days: PostingDay[] = WEEKDAYS.map((day) => ({
+      day,
+      ...this.bucketStats(byDay.get(day) || []),
+    })).sort((a, b) => b.score - a.score || b.sampleSize - a.sampleSize);
+
+    return {
+      timeZone,
+      sampleSize: scored.length,
+      earlySampleSize: scored.filter((v) => v.earlyIndex !== null).length,
+      settledSampleSize: scored.filter((v) => v.finalIndex !== null).length,
+      confidence:
+        scored.length >= 60 ? "high" : scored.length >= 25 ? "medium" : "low",
+      slots,
+      days,
+    };
+  }
+
+  /**
+   * The best-scoring slot with at least two videos as a topic's
+   * bestPostTime; null when none does better than the niche's typical video
+   */
+  toBestPostTime(
+    schedule: PostingSchedule,
+  ): AdvancedSearchTopic["bestPostTime"] | null {
+    const best = schedule.slots.find(
+      (slot) => slot.sampleSize >= MIN_BEST_SLOT_SAMPLES,
+    );
+    if (!best || best.score <= 100) return null;
+
+    return {
+      day: best.day,
+      time: best.time,
+      window: best.window,
+      timeZone: schedule.timeZone,
+      sampleSize: best.sampleSize,
+      confidence: best.confidence,
+      reason: `${best.sampleSize} video${best.sampleSize === 1 ? "" : "s"} published ${best.day} ${best.window} (${schedule.timeZone}) did ${(best.score / 100).toFixed(1)}x the niche's typical video`,
+    };
+  }
+
+  // ========================================
+  // PRIVATE HELPER METHODS
+  // ========================================
+
+  // Index each usable video against the median of its own group (1 = typical)
+  private scoreVideos(
+    videos: PublishedVideo[],
+    timeZone: string,
+  ): ScoredVideo[] {
+    const now = Date.now();
+    const early: Array<{ video: PublishedVideo; rate: number }> = [];
+    const settled: PublishedVideo[] = [];
+
+    for (const video of videos) {
+      const publishedMs = new Date(video.publishedAt).getTime();
+      if (isNaN(publishedMs)) continue;
+
+      const age = now - publishedMs;
+      if (age >= MIN_EARLY_AGE_MS && age <= EARLY_WINDOW_MS) {
+        early.push({ video, rate: video.views / (age / HOUR_MS) });
+      } else if (age >= SETTLED_AGE_MS) {
+        settled.push(video);
+      }
+    }
+
+    const earlyMedian = median(early.map((e) => e.rate));
+    const settledMedian = median(settled.map((v) => v.views));
+    const toIndex = (value: number, baseline: number) =>
+      baseline > 0 ? Math.min(value / baseline, MAX_VIDEO_INDEX) : 1;
+
+    return [
+      ...early.map(({ video, rate }) => ({
+        ...this.localTime(video.publishedAt, timeZone),
+        earlyIndex: toIndex(rate, earlyMedian),
+        finalIndex: null,
+      })),
+      ...settled.map((video) => ({
+        ...this.localTime(video.publishedAt, timeZone),
+        earlyIndex: null,
+        finalIndex: toIndex(video.views, settledMedian),
+      })),
+    ];
+  }
+
+  private bucketStats(bucket: ScoredVideo[]): PostingBucketStats {
+    const earlyIndexes = bucket
+      .map((v) => v.earlyIndex)
+      .filter((i): i is number => i !== null);
+    const finalIndexes = bucket
+      .map((v) => v.finalIndex)
+      .filter((i): i is number => i !== null);
+    const total = [...earlyIndexes, ...finalIndexes].reduce(
+      (sum, i) => sum + i,
+      0,
+    );
+
+    return {
+      score: Math.round(
+        ((total + PRIOR_WEIGHT) / (bucket.length + PRIOR_WEIGHT)) * 100,
+      ),
+      earlyVelocityIndex:
+        earlyIndexes.length > 0 ? Math.round(median(earlyIndexes) * 100) : null,
+      finalViewsIndex:
+        finalIndexes.length > 0 ? Math.round(median(finalIndexes) * 100) : null,
+      sampleSize: bucket.length,
+      confidence: this.bucketConfidence(bucket.length),
+    };
+  }
+
+  private bucketConfidence(sampleSize: number): ScheduleConfidence {
+    if (sampleSize >= 8) return "high";
+    if (sampleSize >= 4) return "medium";
+    return "low";
+  }
+
+  private localTime(
+    publishedAt: string,
+    timeZone: string,
+  ): { day: string; hour: number } {
+    let formatter = this.formatters.get(timeZone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        weekday: "long",
+        hour: "2-digit",
+        hourCycle: "h23",
+      });
+      this.formatters.set(timeZone, formatter);
+    }
+
+    const parts = formatter.formatToParts(new Date(publishedAt));
+    return {
+      day: parts.find((p) => p.type === "weekday")?.value || "Monday",
+      hour: parseInt(parts.find((p) => p.type === "hour")?.value || "0", 10) % 24,
+    };
+  }
+}
+
+export const postingTimeAnalyzer = new PostingTimeAnalyzer();
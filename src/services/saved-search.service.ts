@@ -0,0 +1,274 @@
+// services/saved-search.service.ts
+import topicService from "./topic.service";
+import SavedSearch from "../models/SavedSearch";
+import type { ISavedSearch } from "../models/SavedSearch";
+import User from "../models/User";
+import { mailer } from "../config/mailer";
+import { generateSavedSearchDigestTemplate } from "../templates/savedSearchDigestTemplate";
+import type { DigestSearch } from "../templates/savedSearchDigestTemplate";
+import type { AdvancedVideoFilters } from "../utils/interfaces";
+
+// Saved searches per user; each one costs search quota on every run
+const MAX_SAVED_SEARCHES = parseInt(
+  process.env.SAVED_SEARCH_MAX_PER_USER || "10",
+  10,
+);
+
+// Outliers listed per search in a digest
+const MAX_DIGEST_VIDEOS = 10;
+
+// Emailed videos remembered per search, so one that drops out of the
+// results for a run and comes back isn't alerted twice
+const MAX_ALERTED_VIDEO_IDS = 500;
+
+interface SavedSearchServiceResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  statusCode?: number;
+}
+
+interface CreateSavedSearchData {
+  name?: string;
+  query: string;
+  filters: AdvancedVideoFilters;
+  outlierThreshold?: number;
+  alertsEnabled?: boolean;
+}
+
+interface UpdateSavedSearchData {
+  name?: string;
+  outlierThreshold?: number;
+  alertsEnabled?: boolean;
+}
+
+export interface SavedSearchItem {
+  id: string;
+  name: string;
+  query: string;
+  filters: AdvancedVideoFilters;
+  outlierThreshold: number;
+  alertsEnabled: boolean;
+  lastRunAt: Date | null;
+  lastAlertedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface SavedSearchRunSummary {
+  searches: number;
+  failed: number;
+  digestsSent: number;
+}
+
+export class SavedSearchService {
+  async list(userId: string): Promise<SavedSearchItem[]> {
+    const searches = await SavedSearch.find({ userId }).sort({ createdAt: -1 });
+    return searches.map((search) => this.toItem(search));
+  }
+
+  async create(
+    userId: string,
+    data: CreateSavedSearchData,
+  ): Promise<SavedSearchServiceResponse<SavedSearchItem>> {
+    try {
+      const count = await SavedSearch.countDocuments({ userId });
+      if (count >= MAX_SAVED_SEARCHES) {
+        return {
+          success: false,
+          error: `You can save up to ${MAX_SAVED_SEARCHES} searches`,
+          statusCode: 400,
+        };
+      }
+
+      // The first scheduled run records the baseline; alerts start after it
+      const search = await SavedSearch.create({
+        userId,
+        name: data.name?.trim() || data.query,
+        query: data.query.trim(),
+        filters: data.filters,
+        outlierThreshold: data.outlierThreshold,
+        alertsEnabled: data.alertsEnabled,
+      });
+
+      return { success: true, data: this.toItem(search) };
+    } catch (error) {
+      console.error("❌ Error saving search:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+      };
+    }
+  }
+
+  /**
+   * Update a saved search; returns null if the user has no such search
+   */
+  async update(
+    userId: string,
+    id: string,
+    data: UpdateSavedSearchData,
+  ): Promise<SavedSearchItem | null> {
+    const search = await SavedSearch.findOneAndUpdate(
+      { _id: id, userId },
+      { $set: data },
+      { returnDocument: "after" },
+    );
+    return search ? this.toItem(search) : null;
+  }
+
+  async remove(userId: string, id: string): Promise<boolean> {
+    const result = await SavedSearch.deleteOne({ _id: id, userId });
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Re-run every saved search with alerts on, diff against the last run and
+   * email each user one digest of new outliers (run by the scheduled worker)
+   */
+  async runAll(): Promise<SavedSearchRunSummary> {
+    const summary: SavedSearchRunSummary = { searches: 0, failed: 0, digestsSent: 0 };
+    const userIds: string[] = await SavedSearch.distinct("userId", {
+      alertsEnabled: true,
+    });
+
+    for (const userId of userIds) {
+      const searches = await SavedSearch.find({ userId, alertsEnabled: true });
+      const digest: DigestSearch[] = [];
+      const alerted: Array<{
+        searchId: string;
+        videoIds: string[];
+        resultIds: string[];
+      }> = [];
+
+      for (const search of searches) {
+        try {
+          const { outliers, resultIds } = await this.runSearch(search);
+          summary.searches++;
+          if (outliers.length > 0) {
+            const videos = outliers.slice(0, MAX_DIGEST_VIDEOS);
+            digest.push({
+              name: search.name,
+              query: search.query,
+              outlierThreshold: search.outlierThreshold,
+              videos,
+            });
+            alerted.push({
+              searchId: search._id.toString(),
+              videoIds: videos.map((video) => video.id),
+              resultIds,
+            });
+          }
+        } catch (error: any) {
+          summary.failed++;
+          console.error(`⚠️ Saved search ${search._id} failed:`, error.message);
+        }
+      }
+
+      if (digest.length > 0 && (await this.sendDigest(userId, digest))) {
+        summary.digestsSent++;
+        const now = new Date();
+        await SavedSearch.bulkWrite(
+          alerted.map(({ searchId, videoIds, resultIds }) => ({
+            updateOne: {
+              filter: { _id: searchId },
+              update: {
+                $set: { lastAlertedAt: now, lastResultIds: resultIds },
+                $push: {
+                  alertedVideoIds: {
+                    $each: videoIds,
+                    $slice: -MAX_ALERTED_VIDEO_IDS,
+                  },
+                },
+              },
+            },
+          })),
+        );
+      }
+    }
+
+    console.log(
+      `🔔 Saved searches: ${summary.searches} run, ${summary.failed} failed, ${summary.digestsSent} digests sent`,
+    );
+    return summary;
+  }
+
+  /**
+   * Run one saved search and return videos that are new since the last
+   * run, cross the threshold and haven't been emailed for this search
+   * Results only become the new baseline here when nothing needs alerting;
+   * otherwise runAll moves it once the digest is sent, so an email failure
+   * leaves the outliers to be alerted on the next run
+   */
+  private async runSearch(search: ISavedSearch) {
+    const { videos } = await topicService.searchVideosAdvanced(
+      search.query,
+      search.filters,
+    );
+
+    const isBaseline = !search.lastRunAt;
+    const previous = new Set(search.lastResultIds);
+    const alerted = new Set(search.alertedVideoIds);
+
+    const resultIds = videos.map((video) => video.id);
+    const outliers = isBaseline
+      ? []
+      : videos
+          .filter(
+            (video) =>
+              !previous.has(video.id) &&
+              !alerted.has(video.id) &&
+              video.outlierScore >= search.outlierThreshold,
+          )
+          .sort((a, b) => b.outlierScore - a.outlierScore);
+
+    search.lastRunAt = new Date();
+    if (outliers.length === 0) {
+      search.lastResultIds = resultIds;
+    }
+    await search.save();
+
+    return { outliers, resultIds };
+  }
+
+  // Email failures are logged; the searches keep their old baseline
+  private async sendDigest(userId: string, searches: DigestSearch[]): Promise<boolean> {
+    try {
+      const user = await User.findById(userId);
+      if (!user) return false;
+
+      const total = searches.reduce((sum, search) => sum + search.videos.length, 0);
+
+      await mailer.send({
+        to: user.email,
+        subject: `${total} new outlier${total === 1 ? "" : "s"} in your saved searches`,
+        html: generateSavedSearchDigestTemplate({
+          userName: user.name || undefined,
+          searches,
+        }),
+      });
+      return true;
+    } catch (error) {
+      console.error(`⚠️ Failed to send saved search digest to ${userId}:`, error);
+      return false;
+    }
+  }
+
+  private toItem(search: ISavedSearch): SavedSearchItem {
+    return {
+      id: search._id.toString(),
+      name: search.name,
+      query: search.query,
+      filters: search.filters,
+      outlierThreshold: search.outlierThreshold,
+      alertsEnabled: search.alertsEnabled,
+      lastRunAt: search.lastRunAt || null,
+      lastAlertedAt: search.lastAlertedAt || null,
+      createdAt: search.createdAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const savedSearchService = new SavedSearchService();
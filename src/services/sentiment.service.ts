@@ -4,6 +4,11 @@ import { StateGraph, END } from "@langchain/langgraph";
 import { z } from "zod";
 import { socketService } from "./socket.service";
 import type { YouTubeComment } from "./youtube.service";
+import {
+  isCancellationRequested,
+  JobCancelledError,
+  throwIfCancelled,
+} from "../utils/jobCancellation";
 import { config } from "dotenv";
 config();
 
@@ -188,6 +193,7 @@ type CommentSentiment = z.infer<typeof CommentSentimentSchema>;
 // ========================================
 
 interface AnalysisState {
+  jobId?: string;
   videoId: string;
   comments: YouTubeComment[];
   transcript: string;
@@ -317,12 +323,19 @@ async function processWithWorkerPool(
   // Track progress
   let completedBatches = 0;
   let failedBatches = 0;
+  let cancelled = false;
 
   // Worker function - processes jobs until queue is empty
   const worker = async (workerId: number): Promise<void> => {
     const apiKey = keyRotator.getKeyForWorker(workerId);
 
     while (jobQueue.length > 0) {
+      // Stop picking up batches once the job has been cancelled
+      if (cancelled || (jobId && (await isCancellationRequested(jobId)))) {
+        cancelled = true;
+        break;
+      }
+
       const job = jobQueue.shift(); // Get next job
       if (!job) break;
 
@@ -397,6 +410,13 @@ async function processWithWorkerPool(
   );
   await Promise.all(workers);
 
+  if (cancelled) {
+    console.log(
+      `🛑 Classification cancelled after ${completedBatches}/${totalBatches} batches`,
+    );
+    throw new JobCancelledError(jobId!);
+  }
+
   console.log(
     `✅ All batches processed: ${completedBatches} successful, ${failedBatches} failed`,
   );
@@ -483,7 +503,7 @@ async function classifyCommentsNode(
     state.transcript,
     state.hasTranscript,
     numWorkers,
-    undefined, // jobId will be in closure from buildAnalysisGraph
+    state.jobId, // Used for progress events and cancellation checks
     state.videoId, // ✅ Pass videoId for socket emissions
   );
 
@@ -873,6 +893,7 @@ async function calculateSummaryNode(
 export function buildAnalysisGraph(jobId?: string) {
   const workflow = new StateGraph<AnalysisState>({
     channels: {
+      jobId: null,
       videoId: null,
       comments: null,
       transcript: null,
@@ -899,6 +920,9 @@ export function buildAnalysisGraph(jobId?: string) {
     percentage: number,
   ) => {
     return async (state: AnalysisState) => {
+      // Check for cancellation before every node
+      await throwIfCancelled(jobId);
+
       if (jobId) {
         socketService.emitProgress({
           jobId,
@@ -1031,6 +1055,7 @@ export async function executeAnalysisWorkflow(
   const graph = buildAnalysisGraph(jobId); // ✅ Pass jobId to graph
 
   const initialState: AnalysisState = {
+    jobId,
     videoId,
     comments,
     transcript,
@@ -0,0 +1,219 @@
+// services/shorts.service.ts
+import axios from "axios";
+import type { youtube_v3 } from "googleapis";
+import { RedisCache } from "../utils/redisCache";
+import { parseDurationToMinutes } from "../utils/helpers";
+import type { ShortsSignal } from "../utils/interfaces";
+
+// ========================================
+// SHORTS CLASSIFIER
+// The Data API doesn't say whether an upload is a Short. Duration and
+// #shorts hashtags settle most videos; the rest are handed to a resolver.
+// ========================================
+
+// Shorts can run up to 3 minutes
+export const MAX_SHORT_SECONDS = 180;
+
+// Without a resolver answer, videos up to a minute are assumed to be Shorts
+const FALLBACK_SHORT_SECONDS = 60;
+
+const SHORTS_HASHTAG = /#shorts?\b/i;
+
+// Resolver lookups per classify() call and how many run at once
+const MAX_RESOLVER_LOOKUPS = 50;
+const RESOLVER_CONCURRENCY = 5;
+
+// Time classify() waits for the resolver in total; lookups still running
+// after it finish in the background and are cached for the next request
+const RESOLVER_BUDGET_MS = 4000;
+
+// A video's format never changes once published
+const resolverCache = new RedisCache("shorts-resolver", {
+  ttlMs: 30 * 24 * 60 * 60 * 1000, // 30 days
+  maxEntries: 100000,
+});
+
+export interface ShortsCandidate {
+  id: string;
+  durationSeconds: number;
+  title?: string;
+  description?: string;
+  tags?: string[];
+}
+
+/**
+ * Candidate from a videos.list item (needs the snippet and contentDetails parts)
+ */
+export const toShortsCandidate = (
+  video: youtube_v3.Schema$Video,
+): ShortsCandidate => ({
+  id: video.id || "",
+  durationSeconds: Math.round(
+    parseDurationToMinutes(video.contentDetails?.duration || "PT0M") * 60,
+  ),
+  title: video.snippet?.title || undefined,
+  description: video.snippet?.description || undefined,
+  tags: video.snippet?.tags || undefined,
+});
+
+export interface ShortsClassification {
+  isShort: boolean;
+  signal: ShortsSignal;
+}
+
+/**
+ * Decides whether a single video is a Short
+ * Returns null when it cannot tell, so the classifier falls back to duration
+ */
+export interface ShortsResolver {
+  readonly name: string;
+  isShort(videoId: string): Promise<boolean | null>;
+}
+
+/**
+ * Asks youtube.com directly: /shorts/<id> serves Shorts and redirects
+ * every other video to /watch
+ */
+export class ShortsUrlResolver implements ShortsResolver {
+  readonly name = "shorts-url";
+
+  async isShort(videoId: string): Promise<boolean | null> {
+    try {
+      const response = await axios.head(
+        `https://www.youtube.com/shorts/${encodeURIComponent(videoId)}`,
+        {
+          maxRedirects: 0,
+          timeout: 5000,
+          validateStatus: () => true,
+        },
+      );
+
+      if (response.status === 200) return true;
+
+      // Consent or login redirects say nothing about the video
+      const location = String(response.headers.location || "");
+      if (response.status >= 300 && response.status < 400 && location.includes("/watch")) {
+        return false;
+      }
+
+      return null;
+    } catch (error: any) {
+      console.warn(`⚠️ Shorts URL check failed for ${videoId}:`, error.message);
+      return null;
+    }
+  }
+}
+
+class ShortsClassifier {
+  // SHORTS_RESOLVER=none disables lookups (duration fallback only)
+  private resolver: ShortsResolver | null =
+    process.env.SHORTS_RESOLVER === "none" ? null : new ShortsUrlResolver();
+
+  /**
+   * Replace the resolver used for ambiguous videos (null disables lookups)
+   */
+  useResolver(resolver: ShortsResolver | null): void {
+    this.resolver = resolver;
+  }
+
+  /**
+   * Classify from metadata alone; null when only a resolver can tell
+   */
+  classifyFromMetadata(video: ShortsCandidate): ShortsClassification | null {
+    // Live streams and premieres report no duration
+    if (video.durationSeconds <= 0 || video.durationSeconds > MAX_SHORT_SECONDS) {
+      return { isShort: false, signal: "duration" };
+    }
+
+    const hasHashtag =
+      SHORTS_HASHTAG.test(video.title || "") ||
+      SHORTS_HASHTAG.test(video.description || "") ||
+      (video.tags || []).some((tag) => /^#?shorts?$/i.test(tag.trim()));
+    if (hasHashtag) {
+      return { isShort: true, signal: "hashtag" };
+    }
+
+    return null;
+  }
+
+  /**
+   * Classify a batch of videos, resolving ambiguous ones (results are cached)
+   */
+  async classify(
+    videos: ShortsCandidate[],
+  ): Promise<Record<string, ShortsClassification>> {
+    const results: Record<string, ShortsClassification> = {};
+    const ambiguous: ShortsCandidate[] = [];
+
+    for (const video of videos) {
+      const classification = this.classifyFromMetadata(video);
+      if (classification) {
+        results[video.id] = classification;
+      } else {
+        ambiguous.push(video);
+      }
+    }
+
+    const toResolve: ShortsCandidate[] = [];
+    for (const video of ambiguous) {
+      const cached = await resolverCache.get<boolean>(video.id);
+      if (cached !== null) {
+        results[video.id] = { isShort: cached, signal: "resolver" };
+      } else {
+        toResolve.push(video);
+      }
+    }
+
+    const resolver = this.resolver;
+    const lookups = resolver ? toResolve.slice(0, MAX_RESOLVER_LOOKUPS) : [];
+
+    let timedOut = false;
+    const resolveAll = async () => {
+      for (let i = 0; i < lookups.length && !timedOut; i += RESOLVER_CONCURRENCY) {
+        await Promise.all(
+          lookups.slice(i, i + RESOLVER_CONCURRENCY).map(async (video) => {
+            const isShort = await resolver!.isShort(video.id);
+            if (isShort === null) return;
+
+            await resolverCache.set(video.id, isShort);
+            if (!timedOut) results[video.id] = { isShort, signal: "resolver" };
+          }),
+        );
+      }
+    };
+
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      resolveAll().catch((error) =>
+        console.error("⚠️ Shorts resolver error:", error),
+      ),
+      new Promise<void>((resolve) => {
+        timer = setTimeout(() => {
+          timedOut = true;
+          resolve();
+        }, RESOLVER_BUDGET_MS);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    // Anything still unresolved is decided by duration alone
+    for (const video of toResolve) {
+      if (!results[video.id]) {
+        results[video.id] = {
+          isShort: video.durationSeconds <= FALLBACK_SHORT_SECONDS,
+          signal: "fallback",
+        };
+      }
+    }
+
+    if (ambiguous.length > 0) {
+      console.log(
+        `🎬 Shorts: ${ambiguous.length} ambiguous, ${lookups.length} resolved via ${resolver?.name || "none"}${timedOut ? " (timed out, rest by duration)" : ""}`,
+      );
+    }
+
+    return results;
+  }
+}
+
+export const shortsClassifier = new ShortsClassifier();
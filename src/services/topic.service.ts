@@ -1,46 +1,140 @@
 import youtubeService from "./youtube.service";
+import type { SearchFilters } from "./youtube.service";
 import type {
+  NumberRange,
   AdvancedTopicAnalysis,
   AdvancedSearchTopic,
   AdvancedSuggestions,
   AdvancedVideoFilters,
+  AdvancedSearchCursor,
+  AdvancedVideoSearchPage,
   EnrichedVideoData,
+  FormatBenchmark,
+  FormatBenchmarks,
+  PercentileSet,
+  PostingSchedule,
+  RevenueEstimate,
 } from "../utils/interfaces";
 import {
   parseDurationToMinutes,
-  getCpmEstimate,
   extractCommonWords,
+  percentile,
 } from "../utils/helpers";
+import { shortsClassifier, toShortsCandidate } from "./shorts.service";
+import { monetizationModel, formatUsdRange } from "./monetization.service";
+import type { RevenueProfile } from "./monetization.service";
+import { viewVelocityService } from "./view-velocity.service";
+import { postingTimeAnalyzer } from "./posting-time.service";
+import { contentGapAnalyzer } from "./content-gap.service";
+import type { PublishedVideo } from "./posting-time.service";
+import { RedisCache, cacheKey } from "../utils/redisCache";
+
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+const inRange = (value: number, range?: NumberRange): boolean =>
+  !range ||
+  ((range.min === undefined || value >= range.min) &&
+    (range.max === undefined || value <= range.max));
+
+// Outlier baseline for channels whose uploads can't be read
+const FALLBACK_BASELINE_VIEWS = 50000;
+
+// Returned IDs carried in a search cursor (older ones are rarely repeated)
+const MAX_CURSOR_SEEN_IDS = 200;
+
+// Keywords are case-insensitive; RedisCache hashes keys exactly as given
+const keywordKey = (keyword: string): string => keyword.trim().toLowerCase();
+
+// Shared across instances and deploys; sizes bound Redis memory per cache
+const topicCache = new RedisCache("topics", {
+  ttlMs: CACHE_TTL_MS,
+  maxEntries: 1000,
+});
+const suggestionCache = new RedisCache("suggestions", {
+  ttlMs: CACHE_TTL_MS,
+  maxEntries: 1000,
+});
+const topicAnalysisCache = new RedisCache("topic-analysis", {
+  ttlMs: CACHE_TTL_MS,
+  maxEntries: 1000,
+});
+// Pages carry view velocity and the trending order, so they are only
+// reused briefly (the search calls underneath keep their own cache)
+const videoSearchCache = new RedisCache("video-search-pages", {
+  ttlMs: 10 * 60 * 1000, // 10 minutes
+  maxEntries: 500,
+});
+
+export interface TopicOptions {
+  timeZone?: string; // IANA name posting times are bucketed in (default UTC)
+  region?: string; // ISO 3166-1 alpha-2 audience region for revenue estimates
+}
 
-class TopicService {
-  private topicCache = new Map<string, { data: any; timestamp: number }>();
-  private suggestionCache = new Map<string, { data: any; timestamp: number }>();
-  private readonly CACHE_DURATION = 6 * 60 * 60 * 1000; // 6 hours
+interface TopicSearchResult {
+  count: number;
+  query: string;
+  searchSummary: any;
+  data: AdvancedSearchTopic[];
+  topRecommendations: any[];
+  postingSchedule: PostingSchedule | null;
+  monetization: RevenueEstimate | null;
+}
 
-  private isCacheValid(timestamp: number): boolean {
-    return Date.now() - timestamp < this.CACHE_DURATION;
-  }
+// Cached results don't depend on the caller's time zone: posting times
+// are bucketed per request from the publish data kept alongside them
+interface CachedTopicSearch {
+  result: TopicSearchResult;
+  publishedVideos: PublishedVideo[];
+}
+
+interface CachedTopicAnalysis {
+  analysis: Omit<AdvancedTopicAnalysis, "postingSchedule">;
+  publishedVideos: PublishedVideo[];
+}
 
+class TopicService {
   // ========================================
   // 1️⃣ SEARCH TOPICS - OPTIMIZED (2 API CALLS TOTAL)
   // ========================================
-  async searchTopics(query: string): Promise<{
-    count: number;
-    query: string;
-    searchSummary: any;
-    data: AdvancedSearchTopic[];
-    topRecommendations: any[];
-  }> {
+  async searchTopics(
+    query: string,
+    options: TopicOptions = {},
+  ): Promise<TopicSearchResult> {
     console.log(`\n🎯 Searching topics for: "${query}"`);
 
+    const key = cacheKey(keywordKey(query), options.region ?? null);
+
     // Check cache first
-    const cacheKey = `topics:${query}`;
-    const cached = this.topicCache.get(cacheKey);
-    if (cached && this.isCacheValid(cached.timestamp)) {
+    let search = await topicCache.get<CachedTopicSearch>(key);
+    if (search) {
       console.log(`✅ Returning cached results (no API call)`);
-      return cached.data;
+    } else {
+      search = await this.fetchTopicSearch(query, options.region);
+      if (!search) return this.getEmptyResults(query);
+      await topicCache.set(key, search);
     }
 
+    const postingSchedule = postingTimeAnalyzer.analyze(
+      search.publishedVideos,
+      options.timeZone || "UTC",
+    );
+    const bestPostTime = postingTimeAnalyzer.toBestPostTime(postingSchedule);
+
+    return {
+      ...search.result,
+      // Topics keep their rule-of-thumb time when the niche has no clear slot
+      data: search.result.data.map((topic) =>
+        bestPostTime ? { ...topic, bestPostTime } : topic,
+      ),
+      postingSchedule,
+    };
+  }
+
+  // Seed keyword and related topics, or null when the search finds nothing
+  private async fetchTopicSearch(
+    query: string,
+    region?: string,
+  ): Promise<CachedTopicSearch | null> {
     try {
       // ✅ API CALL 1: Get seed search
       console.log(`📡 API Call 1: Analyzing competition for seed keyword...`);
@@ -51,7 +145,7 @@ class TopicService {
       );
 
       if (!seedSearch.items || seedSearch.items.length === 0) {
-        return this.getEmptyResults(query);
+        return null;
       }
 
       const seedVideoIds = seedSearch.items.map((i: any) => i.id.videoId);
@@ -64,14 +158,20 @@ class TopicService {
       const seedVideos = seedStats.items || [];
 
       if (seedVideos.length === 0) {
-        return this.getEmptyResults(query);
+        return null;
       }
 
+      const revenueProfile = await monetizationModel.profileFromVideos(
+        seedVideos,
+        region,
+      );
+
       // Calculate seed keyword metrics
       const seedMetrics = this.calculateTopicMetrics(
         query,
         seedVideos,
         seedSearch.pageInfo.totalResults,
+        revenueProfile,
       );
 
       // ✅ Generate related keywords - FIXED METHOD
@@ -88,6 +188,7 @@ class TopicService {
       const relatedResults = this.generateRelatedTopics(
         relatedKeywords,
         seedMetrics,
+        revenueProfile,
       );
 
       // Combine all results
@@ -97,7 +198,7 @@ class TopicService {
 
       console.log(`✅ Total topics found: ${allResults.length}`);
 
-      const response = {
+      const result: TopicSearchResult = {
         count: allResults.length,
         query,
         searchSummary: {
@@ -116,18 +217,21 @@ class TopicService {
           opportunityScore: r.opportunityScore,
           reason: r.opportunityReason,
         })),
+        postingSchedule: null,
+        // Revenue per video at the seed keyword's average views
+        monetization: monetizationModel.estimate({
+          ...revenueProfile,
+          views: seedMetrics.avgViews,
+        }),
       };
 
-      // Cache the result
-      this.topicCache.set(cacheKey, {
-        data: response,
-        timestamp: Date.now(),
-      });
-
       console.log(`✅ Analysis complete: Found ${allResults.length} topics`);
       console.log(`📊 Total API calls: 2`);
 
-      return response;
+      return {
+        result,
+        publishedVideos: this.toPublishedVideos(seedVideos),
+      };
     } catch (error: any) {
       console.error("❌ Search error:", error);
       throw new Error(`Failed to search topics: ${error.message}`);
@@ -138,7 +242,7 @@ class TopicService {
   // PRIVATE HELPER METHODS - FIXED
   // ========================================
 
-  private getEmptyResults(query: string) {
+  private getEmptyResults(query: string): TopicSearchResult {
     return {
       count: 0,
       query,
@@ -149,9 +253,20 @@ class TopicService {
       },
       data: [],
       topRecommendations: [],
+      postingSchedule: null,
+      monetization: null,
     };
   }
 
+  private toPublishedVideos(videos: any[]): PublishedVideo[] {
+    return videos
+      .filter((v) => v.snippet?.publishedAt)
+      .map((v) => ({
+        publishedAt: v.snippet.publishedAt,
+        views: parseInt(v.statistics?.viewCount || "0"),
+      }));
+  }
+
   // NEW: Better keyword extraction from titles
   private extractRelatedKeywordsFromTitles(
     query: string,
@@ -342,6 +457,7 @@ class TopicService {
   private generateRelatedTopics(
     keywords: string[],
     seedMetrics: AdvancedSearchTopic,
+    revenueProfile: RevenueProfile,
   ): AdvancedSearchTopic[] {
     const results: AdvancedSearchTopic[] = [];
 
@@ -379,6 +495,7 @@ class TopicService {
         growthRate: seedMetrics.growthRate,
         estimatedRevenue: this.calculateEstimatedRevenue(
           seedMetrics.avgViews * combinedFactor,
+          revenueProfile,
         ),
         successRate: this.getSuccessRate(
           seedMetrics.opportunityScore * combinedFactor,
@@ -396,6 +513,7 @@ class TopicService {
     keyword: string,
     videos: any[],
     totalResults: number,
+    revenueProfile: RevenueProfile,
   ): AdvancedSearchTopic {
     // Calculate basic metrics
     const totalViews = videos.reduce(
@@ -453,8 +571,9 @@ class TopicService {
         competition,
       ),
       growthRate: trend === "rising" ? "+25% (trending)" : "+10% (stable)",
-      estimatedRevenue: this.calculateEstimatedRevenue(avgViews),
+      estimatedRevenue: this.calculateEstimatedRevenue(avgViews, revenueProfile),
       successRate: this.getSuccessRate(opportunityScore),
+      // Rule of thumb; searchTopics swaps in the niche's best slot if it has one
       bestPostTime: {
         day: trend === "rising" ? "Tuesday" : "Thursday",
         time: "14:00",
@@ -466,11 +585,15 @@ class TopicService {
     };
   }
 
-  private calculateEstimatedRevenue(avgViews: number): string {
-    const cpm = getCpmEstimate("default");
-    const lowEst = Math.round((avgViews / 1000) * cpm.low);
-    const highEst = Math.round((avgViews / 1000) * cpm.high);
-    return `$${lowEst}-$${highEst}`;
+  private calculateEstimatedRevenue(
+    avgViews: number,
+    revenueProfile: RevenueProfile,
+  ): string {
+    const { revenue } = monetizationModel.estimate({
+      ...revenueProfile,
+      views: avgViews,
+    });
+    return formatUsdRange(revenue);
   }
 
   private getSuccessRate(opportunityScore: number): string {
@@ -518,11 +641,12 @@ class TopicService {
     console.log(`\n🎯 Getting suggestions for: "${seedKeyword}"`);
 
     // Check cache first
-    const cacheKey = `suggestions:${seedKeyword}`;
-    const cached = this.suggestionCache.get(cacheKey);
-    if (cached && this.isCacheValid(cached.timestamp)) {
+    const cached = await suggestionCache.get<AdvancedSuggestions>(
+      keywordKey(seedKeyword),
+    );
+    if (cached) {
       console.log(`✅ Returning cached results (no API call)`);
-      return cached.data;
+      return cached;
     }
 
     try {
@@ -560,10 +684,7 @@ class TopicService {
       );
 
       // Cache the result
-      this.suggestionCache.set(cacheKey, {
-        data: suggestions,
-        timestamp: Date.now(),
-      });
+      await suggestionCache.set(keywordKey(seedKeyword), suggestions);
 
       console.log(
         `✅ Suggestions complete: ${suggestions.suggestions.highOpportunity.length} high opportunity ideas`,
@@ -749,9 +870,41 @@ class TopicService {
   // ========================================
   // 3️⃣ ANALYZE TOPIC - OPTIMIZED (2 API CALLS)
   // ========================================
-  async analyzeTopic(keyword: string): Promise<AdvancedTopicAnalysis> {
+  async analyzeTopic(
+    keyword: string,
+    options: TopicOptions = {},
+  ): Promise<AdvancedTopicAnalysis> {
     console.log(`\n🎯 Analyzing topic: "${keyword}"`);
 
+    const timeZone = options.timeZone || "UTC";
+    const { analysis, publishedVideos } = await topicAnalysisCache.getOrSet(
+      cacheKey(keywordKey(keyword), options.region ?? null),
+      () => this.fetchTopicAnalysis(keyword, options.region),
+    );
+
+    const postingSchedule = postingTimeAnalyzer.analyze(publishedVideos, timeZone);
+    const bestSlot = postingTimeAnalyzer.toBestPostTime(postingSchedule);
+
+    return {
+      ...analysis,
+      viralPotential: {
+        ...analysis.viralPotential,
+        timing:
+          analysis.trend === "rising"
+            ? "Post immediately - topic is rising"
+            : bestSlot
+              ? `Post ${bestSlot.day} ${bestSlot.window} (${timeZone}) - ${bestSlot.confidence} confidence`
+              : "Post during peak hours (Thu-Fri)",
+      },
+      postingSchedule,
+    };
+  }
+
+  // Everything but posting times, which depend on the caller's time zone
+  private async fetchTopicAnalysis(
+    keyword: string,
+    region?: string,
+  ): Promise<CachedTopicAnalysis> {
     try {
       // ✅ API CALL 1: Search videos
       console.log(`📡 API Call 1: Searching for videos...`);
@@ -774,7 +927,6 @@ class TopicService {
         totalComments = 0,
         totalDuration = 0;
       const titles: string[] = [];
-      const categoryCounts: Record<string, number> = {};
       const viewsArray: number[] = [];
 
       videos.forEach((v) => {
@@ -789,8 +941,6 @@ class TopicService {
 
         if (v.snippet) {
           titles.push(v.snippet.title);
-          const cat = v.snippet.categoryId || "default";
-          categoryCounts[cat] = (categoryCounts[cat] || 0) + 1;
         }
       });
 
@@ -823,15 +973,20 @@ class TopicService {
       if (trendScore > 40) trend = "rising";
       else if (trendScore < 20) trend = "declining";
 
-      const topCategory =
-        Object.entries(categoryCounts).sort((a, b) => b[1] - a[1])[0]?.[0] ||
-        "20";
-      const cpm = getCpmEstimate(topCategory);
-      const estRevLow = Math.round((avgViews / 1000) * cpm.low);
-      const estRevHigh = Math.round((avgViews / 1000) * cpm.high);
+      const revenue = monetizationModel.estimate({
+        ...(await monetizationModel.profileFromVideos(videos, region)),
+        views: avgViews,
+      });
 
       const commonWords = extractCommonWords(titles, keyword);
 
+      const titledVideos = videos
+        .filter((v) => v.snippet)
+        .map((v) => ({
+          title: v.snippet.title,
+          views: parseInt(v.statistics.viewCount || "0"),
+        }));
+
       const viralScore = Math.round(
         engagementRateRaw > 0.05 ? 8.5 : engagementRateRaw > 0.02 ? 6.5 : 4.5,
       );
@@ -841,7 +996,7 @@ class TopicService {
       );
       console.log(`📊 Total API calls: 2`);
 
-      return {
+      const analysis: CachedTopicAnalysis["analysis"] = {
         keyword,
         searchVolume: totalResults,
         competition,
@@ -849,9 +1004,15 @@ class TopicService {
         difficultyScore: 55,
         difficultyReason: `${competition} competition with ${trend} interest trend. Avg views: ${avgViews.toLocaleString()}`,
         monetizationPotential: {
-          estimatedRevenuePerVideo: `$${estRevLow}-$${estRevHigh}`,
-          cpmRate: `$${cpm?.low}-$${cpm?.high} (${cpm?.label})`,
-          monthlyPotential: `$${estRevLow * 4}-$${estRevHigh * 4} (approx 4 uploads)`,
+          estimatedRevenuePerVideo: formatUsdRange(revenue.revenue),
+          cpmRate: `${formatUsdRange(revenue.longForm.cpm!)} (${revenue.longForm.categoryLabel}, ${revenue.longForm.regionLabel})`,
+          rpmRate: formatUsdRange(revenue.longForm.rpm),
+          shortsRpmRate: formatUsdRange(revenue.shorts.rpm),
+          monthlyPotential: `${formatUsdRange({
+            low: revenue.revenue.low * 4,
+            high: revenue.revenue.high * 4,
+          })} (approx 4 uploads)`,
+          assumptions: revenue.assumptions,
         },
         optimalVideoLength: {
           avgLength: `${Math.round(avgDuration)} minutes`,
@@ -894,11 +1055,10 @@ class TopicService {
               : engagementRateRaw > 0.02
                 ? "Good engagement rate with moderate viral potential"
                 : "Standard engagement levels",
-          timing:
-            trendScore > 40
-              ? "Post immediately - topic is rising"
-              : "Post during peak hours (Thu-Fri)",
+          timing: "", // Set per time zone by analyzeTopic
         },
+        contentGaps: contentGapAnalyzer.findGaps(keyword, titledVideos),
+        titleFormats: contentGapAnalyzer.getFormatStats(titledVideos),
         relatedTopics: this.extractRelatedKeywordsFromTitles(
           keyword,
           searchRes.items,
@@ -914,6 +1074,8 @@ class TopicService {
           engagementRate: `${(engagementRateRaw * 100).toFixed(2)}%`,
         },
       };
+
+      return { analysis, publishedVideos: this.toPublishedVideos(videos) };
     } catch (error: any) {
       console.error("❌ Analysis error:", error);
       throw new Error(`Failed to analyze topic: ${error.message}`);
@@ -923,11 +1085,25 @@ class TopicService {
   // ========================================
   // 🎯 ADVANCED VIDEO SEARCH - OPTIMIZED (2-3 API CALLS)
   // ========================================
+  // Pass the previous page's cursor to continue where it stopped
   async searchVideosAdvanced(
     query: string,
     filters: AdvancedVideoFilters,
-  ): Promise<EnrichedVideoData[]> {
+    cursor?: AdvancedSearchCursor,
+  ): Promise<AdvancedVideoSearchPage> {
+    return videoSearchCache.getOrSet(cacheKey(keywordKey(query), filters, cursor ?? null), () =>
+      this.fetchVideosAdvanced(query, filters, cursor),
+    );
+  }
+
+  private async fetchVideosAdvanced(
+    query: string,
+    filters: AdvancedVideoFilters,
+    cursor?: AdvancedSearchCursor,
+  ): Promise<AdvancedVideoSearchPage> {
     const maxResults = this.validateMaxResults(filters.maxResults || 20);
+    const pending = cursor?.pending ?? [];
+    const seen = new Set(cursor?.seen ?? []);
 
     // Map frontend sort to YouTube API order
     const sortMapping = {
@@ -935,6 +1111,7 @@ class TopicService {
       bestMatch: "relevance",
       mostViews: "viewCount",
       topRated: "rating",
+      trending: "relevance", // Ranked locally by view velocity
     };
     const sort = sortMapping[filters.sort || "bestMatch"] || "relevance";
 
@@ -950,14 +1127,18 @@ class TopicService {
       const targetFetch = Math.min(maxResults * fetchMultiplier, 150);
 
       let allSearchResults: any[] = [];
-      let pageToken: string | undefined = undefined;
+      let pageToken: string | undefined = cursor?.pageToken;
+      let hasMorePages = !cursor || !!cursor.pageToken;
       let searchCalls = 0;
       const maxSearchCalls = Math.ceil(targetFetch / 50);
 
       // ========================================
       // API CALL 1-2: Search with YouTube filters
+      // (skipped when the cursor already holds a full page)
       // ========================================
       while (
+        hasMorePages &&
+        pending.length < maxResults &&
         allSearchResults.length < targetFetch &&
         searchCalls < maxSearchCalls
       ) {
@@ -966,18 +1147,16 @@ class TopicService {
         const remainingNeeded = targetFetch - allSearchResults.length;
         const fetchCount = Math.min(remainingNeeded, 50);
 
-        const searchParams: any = {
-          order: sort,
-          maxResults: fetchCount,
+        const searchParams: SearchFilters = {
+          order: sort as SearchFilters["order"],
+          duration: this.toYouTubeDuration(filters),
+          // Narrow the search itself so fewer results are discarded later
+          publishedAfter: filters.publishedAfter,
+          publishedBefore: filters.publishedBefore,
+          regionCode: filters.regionCode,
+          relevanceLanguage: filters.relevanceLanguage,
         };
 
-        // Apply YouTube's native content type filter
-        if (filters.contentType === "shorts") {
-          searchParams.videoDuration = "short"; // < 4 minutes
-        } else if (filters.contentType === "longForm") {
-          searchParams.videoDuration = "long"; // > 20 minutes
-        }
-
         if (pageToken) {
           searchParams.pageToken = pageToken;
         }
@@ -994,39 +1173,48 @@ class TopicService {
 
         if (!searchRes.items || searchRes.items.length === 0) {
           console.log("❌ No more videos found");
+          hasMorePages = false;
           break;
         }
 
         allSearchResults.push(...searchRes.items);
         pageToken = searchRes.nextPageToken;
 
-        if (!pageToken) break;
+        if (!pageToken) hasMorePages = false;
       }
 
       console.log(
         `📦 Fetched ${allSearchResults.length} raw videos in ${searchCalls} calls`,
       );
 
-      if (allSearchResults.length === 0) {
-        return [];
-      }
-
       // ========================================
       // API CALL 2: Get video stats (batched)
+      // Leftovers from the previous page come first; stats are cached
       // ========================================
       const videoIds = [
-        ...new Set(allSearchResults.map((i: any) => i.id.videoId)),
-      ];
+        ...new Set<string>([
+          ...pending,
+          ...allSearchResults.map((i: any) => i.id.videoId),
+        ]),
+      ].filter((id) => !seen.has(id));
+
+      if (videoIds.length === 0) {
+        return this.emptyPage();
+      }
+
       console.log(
         `📊 Stats API Call: Getting details for ${videoIds.length} videos...`,
       );
 
       let allVideoStats: any[] = [];
 
-      // Batch in chunks of 50 (YouTube API limit)
+      // Batch in chunks of 50 (YouTube API limit); read uncached, since
+      // these counts become velocity samples stamped with the current time
       for (let i = 0; i < videoIds.length; i += 50) {
         const chunk = videoIds.slice(i, i + 50);
-        const statsRes = await youtubeService.getVideoStats(chunk);
+        const statsRes = await youtubeService.getVideoStats(chunk, {
+          cache: false,
+        });
         if (statsRes.items) {
           allVideoStats.push(...statsRes.items);
         }
@@ -1035,46 +1223,54 @@ class TopicService {
       console.log(`✅ Got stats for ${allVideoStats.length} videos`);
 
       if (allVideoStats.length === 0) {
-        return [];
+        return this.emptyPage();
       }
 
       // ========================================
-      // API CALL 3: Get channel stats (CONDITIONAL)
+      // API CALL 3: Get channel stats (batches of 50, cached per channel)
       // ========================================
-      let channelLookup: Record<string, number> = {};
+      const channelIds = [
+        ...new Set(allVideoStats.map((v) => v.snippet.channelId as string)),
+      ];
+      console.log(
+        `👥 Channel API Call: Getting stats for ${channelIds.length} channels...`,
+      );
 
-      // Only fetch channel stats if needed for high view filters
-      const needsChannelStats = filters.minViews && filters.minViews >= 10000;
+      const channelLookup =
+        await youtubeService.getSubscriberCounts(channelIds);
 
-      if (needsChannelStats) {
-        const channelIds = [
-          ...new Set(allVideoStats.map((v) => v.snippet.channelId)),
-        ];
-        console.log(
-          `👥 Channel API Call: Getting stats for ${channelIds.length} channels...`,
-        );
+      console.log(
+        `✅ Got channel stats for ${Object.keys(channelLookup).length} channels`,
+      );
 
-        for (let i = 0; i < channelIds.length; i += 50) {
-          const chunk = channelIds.slice(i, i + 50);
-          const channelRes = await youtubeService.getChannelsStats(chunk);
-          channelRes.items.forEach((ch) => {
-            channelLookup[ch.id] = parseInt(
-              ch.statistics?.subscriberCount || "0",
-            );
-          });
-        }
+      // ========================================
+      // API CALL 4: Channel baselines (cached per channel for 24h)
+      // ========================================
+      const baselines = await youtubeService.getChannelBaselines(
+        allVideoStats.map((v) => v.snippet.channelId),
+      );
 
-        console.log(
-          `✅ Got channel stats for ${Object.keys(channelLookup).length} channels`,
-        );
-      }
+      // ========================================
+      // STEP 2: Classify Shorts (metadata first, resolver when unsure)
+      // ========================================
+      const shorts = await shortsClassifier.classify(
+        allVideoStats.map(toShortsCandidate),
+      );
+
+      // Record today's view counts; velocity comes from earlier samples
+      const velocities = await viewVelocityService.track(
+        allVideoStats.map((v) => ({
+          videoId: v.id,
+          views: parseInt(v.statistics?.viewCount || "0"),
+        })),
+      );
 
       // ========================================
-      // STEP 2: Enrich videos with all metrics
+      // STEP 3: Enrich videos with all metrics
       // ========================================
       console.log(`🔧 Enriching ${allVideoStats.length} videos...`);
 
-      const enrichedVideos = allVideoStats.map((v) => {
+      const enrichedVideos: EnrichedVideoData[] = allVideoStats.map((v) => {
         const views = parseInt(v.statistics?.viewCount || "0");
         const likes = parseInt(v.statistics?.likeCount || "0");
         const comments = parseInt(v.statistics?.commentCount || "0");
@@ -1093,20 +1289,26 @@ class TopicService {
             ? 100
             : Math.max(0, 100 - hoursSinceUpload / 24);
 
-        // Subscriber data (exact or estimated)
-        const subscribers =
-          channelLookup[v.snippet.channelId] || Math.round(views / 100);
+        // Subscriber data: estimated only when the channel hides its count
+        const realSubscribers = channelLookup[v.snippet.channelId];
+        const subscribersEstimated =
+          realSubscribers === null || realSubscribers === undefined;
+        const subscribers = subscribersEstimated
+          ? Math.round(views / 100)
+          : realSubscribers;
         const viewToSubRatio = subscribers > 0 ? views / subscribers : 0;
 
         // Engagement metrics
         const engagementRate =
           views > 0 ? ((likes + comments) / views) * 100 : 0;
 
-        // Viral Score (Outlier Score) - 200% = 200
-        const avgViewsForCategory = 50000;
+        // Viral Score (Outlier Score) - 200% = 2x the channel's median views
+        const channelMedianViews =
+          baselines[v.snippet.channelId]?.medianViews || null;
+        const baselineViews = channelMedianViews || FALLBACK_BASELINE_VIEWS;
         const outlierScore =
           views > 0
-            ? Math.min(Math.round((views / avgViewsForCategory) * 100), 1000)
+            ? Math.min(Math.round((views / baselineViews) * 100), 1000)
             : 0;
 
         return {
@@ -1126,19 +1328,32 @@ class TopicService {
           comments,
           duration,
           durationMins: duration,
-          isShort: duration < 1,
+          isShort: shorts[v.id]?.isShort ?? false,
+          shortsSignal: shorts[v.id]?.signal ?? "fallback",
           subscribers,
+          subscribersEstimated,
           viewsPerHour,
+          viewVelocity: velocities[v.id]?.viewVelocity ?? null,
+          viewAcceleration: velocities[v.id]?.viewAcceleration ?? null,
+          trendingMetric:
+            velocities[v.id]?.viewVelocity != null
+              ? "viewVelocity"
+              : "viewsPerHour",
           engagementRate,
           viewToSubRatio,
           outlierScore,
+          channelMedianViews,
           freshnessScore: Math.round(freshnessScore),
+          viewsPerHourPercentile: 0, // Set from the format benchmarks below
           tags: v.snippet.tags || [],
         };
       });
 
+      // Benchmark Shorts and long-form separately, before filters narrow the sample
+      const benchmarks = this.applyFormatBenchmarks(enrichedVideos);
+
       // ========================================
-      // STEP 3: Apply frontend filters
+      // STEP 4: Apply frontend filters
       // ========================================
       console.log(`🔍 Applying filters...`);
 
@@ -1147,14 +1362,14 @@ class TopicService {
       console.log(`✅ After filtering: ${filteredVideos.length} videos`);
 
       // ========================================
-      // STEP 4: Deduplicate
+      // STEP 5: Deduplicate
       // ========================================
       const uniqueMap = new Map();
       filteredVideos.forEach((item) => uniqueMap.set(item.id, item));
       const uniqueVideos = Array.from(uniqueMap.values());
 
       // ========================================
-      // STEP 5: Apply sorting (if not done by YouTube)
+      // STEP 6: Apply sorting (if not done by YouTube)
       // ========================================
       let sortedVideos = this.applySorting(
         uniqueVideos,
@@ -1162,21 +1377,33 @@ class TopicService {
       );
 
       // ========================================
-      // STEP 6: Return exact count requested
+      // STEP 7: Return exact count requested
       // ========================================
       const finalResults = sortedVideos.slice(0, maxResults);
+      const leftover = sortedVideos.slice(maxResults).map((v) => v.id);
+
+      const next: AdvancedSearchCursor | null =
+        leftover.length > 0 || hasMorePages
+          ? {
+              query,
+              filters,
+              pageToken: hasMorePages ? pageToken : undefined,
+              pending: leftover,
+              seen: [...seen, ...finalResults.map((v) => v.id)].slice(
+                -MAX_CURSOR_SEEN_IDS,
+              ),
+            }
+          : null;
 
       const totalApiCalls =
         searchCalls +
         Math.ceil(videoIds.length / 50) +
-        (needsChannelStats
-          ? Math.ceil(Object.keys(channelLookup).length / 50)
-          : 0);
+        Math.ceil(channelIds.length / 50);
 
       console.log(`✅ FINAL: Returning ${finalResults.length} videos`);
       console.log(`📊 Total API calls: ${totalApiCalls}`);
 
-      return finalResults;
+      return { videos: finalResults, next, benchmarks };
     } catch (error: any) {
       console.error("❌ Search error:", error);
       throw new Error(`Failed to search videos: ${error.message}`);
@@ -1197,20 +1424,86 @@ class TopicService {
       if (filters.contentType === "longForm" && v.durationMins < 10)
         return false;
 
-      // Viral Score filter (200% = 200)
-      if (filters.viralScore !== undefined) {
-        if (v.outlierScore < filters.viralScore) return false;
-      }
-
-      // Min Views filter (10K+ = 10000)
-      if (filters.minViews !== undefined) {
-        if (v.views < filters.minViews) return false;
-      }
+      // Range filters (viral score 200% = 200, views 10K+ = { min: 10000 })
+      if (!inRange(v.outlierScore, filters.outlierScore)) return false;
+      if (!inRange(v.views, filters.views)) return false;
+      if (!inRange(v.subscribers, filters.subscribers)) return false;
+      if (!inRange(v.viewsPerHour, filters.viewsPerHour)) return false;
+      if (!inRange(v.durationMins, filters.videoLength)) return false;
+      if (!inRange(v.viewToSubRatio, filters.viewToSubRatio)) return false;
+
+      // Date window (double-check YouTube's filter)
+      const published = new Date(v.publishedAt).getTime();
+      if (
+        filters.publishedAfter &&
+        published < new Date(filters.publishedAfter).getTime()
+      )
+        return false;
+      if (
+        filters.publishedBefore &&
+        published > new Date(filters.publishedBefore).getTime()
+      )
+        return false;
 
       return true;
     });
   }
 
+  // Percentiles per format; sets each video's viewsPerHourPercentile
+  private applyFormatBenchmarks(videos: EnrichedVideoData[]): FormatBenchmarks {
+    const benchmark = (cohort: EnrichedVideoData[]): FormatBenchmark => {
+      const percentiles = (values: number[]): PercentileSet => {
+        const sorted = [...values].sort((a, b) => a - b);
+        return {
+          p25: Math.round(percentile(sorted, 25) * 100) / 100,
+          p50: Math.round(percentile(sorted, 50) * 100) / 100,
+          p75: Math.round(percentile(sorted, 75) * 100) / 100,
+          p90: Math.round(percentile(sorted, 90) * 100) / 100,
+        };
+      };
+
+      // Share of same-format videos this one outpaces
+      const rates = cohort.map((v) => v.viewsPerHour);
+      cohort.forEach((v) => {
+        const below = rates.filter((rate) => rate < v.viewsPerHour).length;
+        v.viewsPerHourPercentile =
+          cohort.length > 1 ? Math.round((below / (cohort.length - 1)) * 100) : 100;
+      });
+
+      return {
+        sampleSize: cohort.length,
+        views: percentiles(cohort.map((v) => v.views)),
+        viewsPerHour: percentiles(rates),
+        engagementRate: percentiles(cohort.map((v) => v.engagementRate)),
+      };
+    };
+
+    return {
+      shorts: benchmark(videos.filter((v) => v.isShort)),
+      longForm: benchmark(videos.filter((v) => !v.isShort)),
+    };
+  }
+
+  private emptyPage(): AdvancedVideoSearchPage {
+    return { videos: [], next: null, benchmarks: this.applyFormatBenchmarks([]) };
+  }
+
+  // Pick YouTube's duration bucket (short < 4, medium 4-20, long > 20 minutes)
+  private toYouTubeDuration(
+    filters: AdvancedVideoFilters,
+  ): SearchFilters["duration"] {
+    if (filters.contentType === "shorts") return "short";
+    if (filters.contentType === "longForm") return "long";
+
+    const { min, max } = filters.videoLength || {};
+    if (max !== undefined && max < 4) return "short";
+    if (min !== undefined && min >= 20) return "long";
+    if (min !== undefined && min >= 4 && max !== undefined && max <= 20)
+      return "medium";
+
+    return undefined;
+  }
+
   private applySorting(
     videos: EnrichedVideoData[],
     sort: string,
@@ -1228,6 +1521,17 @@ class TopicService {
         return sorted.sort((a, b) => b.views - a.views);
       case "topRated":
         return sorted.sort((a, b) => b.engagementRate - a.engagementRate);
+      case "trending":
+        // Videos with measured velocity first; the rest can only be
+        // ranked by lifetime average, which says little about "now"
+        return sorted.sort((a, b) => {
+          const aMeasured = a.viewVelocity !== null;
+          const bMeasured = b.viewVelocity !== null;
+          if (aMeasured !== bMeasured) return aMeasured ? -1 : 1;
+          return aMeasured
+            ? b.viewVelocity! - a.viewVelocity!
+            : b.viewsPerHour - a.viewsPerHour;
+        });
       case "bestMatch":
       default:
         return sorted; // Already sorted by YouTube relevance
@@ -111,7 +111,8 @@ const AgentState = Annotation.Root({
 
 async function competitionAgentNode(
   state: typeof AgentState.State,
-  streamWriter: StreamWriter
+  streamWriter: StreamWriter,
+  signal?: AbortSignal
 ): Promise<Partial<typeof AgentState.State>> {
   streamWriter.agentStatus("competition", "started");
   streamWriter.log("🔍 Competition Agent: Starting analysis...", "info");
@@ -148,7 +149,8 @@ Call ALL 3 tools to gather comprehensive competition data. Be thorough!`;
 
   // Tool execution loop
   for (let i = 0; i < 5; i++) {
-    const response = await model.invoke(messages);
+    signal?.throwIfAborted();
+    const response = await model.invoke(messages, { signal });
     messages.push(response);
 
     if (!response.tool_calls || response.tool_calls.length === 0) {
@@ -162,11 +164,11 @@ Call ALL 3 tools to gather comprehensive competition data. Be thorough!`;
       const args = toolCall.args;
 
       if (toolCall.name === "checkCompetition") {
-        result = await checkCompetitionTool.invoke(args as any);
+        result = await checkCompetitionTool.invoke(args as any, { signal });
       } else if (toolCall.name === "scrapeTopChannels") {
-        result = await scrapeTopChannelsTool.invoke(args as any);
+        result = await scrapeTopChannelsTool.invoke(args as any, { signal });
       } else if (toolCall.name === "estimateMetrics") {
-        result = await estimateMetricsTool.invoke(args as any);
+        result = await estimateMetricsTool.invoke(args as any, { signal });
       }
 
       toolResults.push({ tool: toolCall.name, result });
@@ -197,7 +199,7 @@ Be specific and data-driven. Use the actual numbers from the tools.`;
 
   const competitionAnalysis = await modelWithSchema.invoke([
     new HumanMessage(synthesisPrompt),
-  ]);
+  ], { signal });
 
   streamWriter.log("✅ Competition Agent: Analysis complete", "success");
   streamWriter.agentStatus("competition", "completed", {
@@ -217,7 +219,8 @@ Be specific and data-driven. Use the actual numbers from the tools.`;
 
 async function audienceAgentNode(
   state: typeof AgentState.State,
-  streamWriter: StreamWriter
+  streamWriter: StreamWriter,
+  signal?: AbortSignal
 ): Promise<Partial<typeof AgentState.State>> {
   const jobId = state.jobId;
 
@@ -251,7 +254,8 @@ Call BOTH tools to gather comprehensive audience insights.`;
   let toolResults: any[] = [];
 
   for (let i = 0; i < 5; i++) {
-    const response = await model.invoke(messages);
+    signal?.throwIfAborted();
+    const response = await model.invoke(messages, { signal });
     messages.push(response);
 
     if (!response.tool_calls || response.tool_calls.length === 0) {
@@ -266,9 +270,9 @@ Call BOTH tools to gather comprehensive audience insights.`;
       const args = toolCall.args;
 
       if (toolCall.name === "getAudienceRelatability") {
-        result = await getAudienceRelatabilityTool.invoke(args as any);
+        result = await getAudienceRelatabilityTool.invoke(args as any, { signal });
       } else if (toolCall.name === "analyzeComments") {
-        result = await analyzeCommentsTool.invoke(args as any);
+        result = await analyzeCommentsTool.invoke(args as any, { signal });
       }
 
       toolResults.push({ tool: toolCall.name, result });
@@ -301,7 +305,7 @@ Be specific about what the audience truly wants and needs.`;
 
   const audienceAnalysis = await modelWithSchema.invoke([
     new HumanMessage(synthesisPrompt),
-  ]);
+  ], { signal });
 
   console.log("✅ Audience Agent: Analysis complete");
   console.log(
@@ -329,7 +333,8 @@ Be specific about what the audience truly wants and needs.`;
 
 async function trendAgentNode(
   state: typeof AgentState.State,
-  streamWriter: StreamWriter
+  streamWriter: StreamWriter,
+  signal?: AbortSignal
 ): Promise<Partial<typeof AgentState.State>> {
   const jobId = state.jobId;
 
@@ -368,7 +373,8 @@ Call ALL 3 tools to understand trend trajectory and timing.`;
   let toolResults: any[] = [];
 
   for (let i = 0; i < 5; i++) {
-    const response = await model.invoke(messages);
+    signal?.throwIfAborted();
+    const response = await model.invoke(messages, { signal });
     messages.push(response);
 
     if (!response.tool_calls || response.tool_calls.length === 0) {
@@ -383,11 +389,11 @@ Call ALL 3 tools to understand trend trajectory and timing.`;
       const args = toolCall.args;
 
       if (toolCall.name === "getTrendingSignals") {
-        result = await getTrendingSignalsTool.invoke(args as any);
+        result = await getTrendingSignalsTool.invoke(args as any, { signal });
       } else if (toolCall.name === "searchGoogleTrends") {
-        result = await searchGoogleTrendsTool.invoke(args as any);
+        result = await searchGoogleTrendsTool.invoke(args as any, { signal });
       } else if (toolCall.name === "getSearchDemand") {
-        result = await getSearchDemandTool.invoke(args as any);
+        result = await getSearchDemandTool.invoke(args as any, { signal });
       }
 
       toolResults.push({ tool: toolCall.name, result });
@@ -420,7 +426,7 @@ Be specific about timing and trend momentum.`;
 
   const trendAnalysis = await modelWithSchema.invoke([
     new HumanMessage(synthesisPrompt),
-  ]);
+  ], { signal });
 
   console.log("✅ Trend Agent: Analysis complete");
   console.log(
@@ -448,7 +454,8 @@ Be specific about timing and trend momentum.`;
 
 async function strategyAgentNode(
   state: typeof AgentState.State,
-  streamWriter: StreamWriter
+  streamWriter: StreamWriter,
+  signal?: AbortSignal
 ): Promise<Partial<typeof AgentState.State>> {
   const jobId = state.jobId;
 
@@ -482,7 +489,8 @@ Call these tools to understand what works in this niche.`;
   let toolResults: any[] = [];
 
   for (let i = 0; i < 6; i++) {
-    const response = await model.invoke(messages);
+    signal?.throwIfAborted();
+    const response = await model.invoke(messages, { signal });
     messages.push(response);
 
     if (!response.tool_calls || response.tool_calls.length === 0) {
@@ -497,11 +505,11 @@ Call these tools to understand what works in this niche.`;
       const args = toolCall.args;
 
       if (toolCall.name === "fetchVideoTranscript") {
-        result = await fetchVideoTranscriptTool.invoke(args as any);
+        result = await fetchVideoTranscriptTool.invoke(args as any, { signal });
         // ADD THIS - Extra detail for transcript fetches
         streamWriter.log(`    Analyzing video structure...`, "info");
       } else if (toolCall.name === "findReferenceVideo") {
-        result = await findReferenceVideoTool.invoke(args as any);
+        result = await findReferenceVideoTool.invoke(args as any, { signal });
         // ADD THIS - Extra detail for reference videos
         streamWriter.log(`    Finding reference videos...`, "info");
       }
@@ -539,7 +547,7 @@ Be specific and actionable for content creation.`;
 
   const strategyAnalysis = await modelWithSchema.invoke([
     new HumanMessage(synthesisPrompt),
-  ]);
+  ], { signal });
 
   console.log("✅ Strategy Agent: Analysis complete");
   console.log(
@@ -648,7 +656,8 @@ const SupervisorSynthesisSchema = z.object({
 // Around line 485
 async function supervisorNode(
   state: typeof AgentState.State,
-  streamWriter: StreamWriter
+  streamWriter: StreamWriter,
+  signal?: AbortSignal
 ): Promise<Partial<typeof AgentState.State>> {
   streamWriter.log("🧠 Supervisor: Synthesizing all research...", "info");
 
@@ -697,7 +706,7 @@ Be honest, data-driven, and actionable.`;
 
   streamWriter.log("🤖 Supervisor: Generating recommendations...", "info");
 
-  const synthesis = await model.invoke([new HumanMessage(prompt)]);
+  const synthesis = await model.invoke([new HumanMessage(prompt)], { signal });
 
   const finalOutput: FinalOutput = {
     verdict: synthesis.verdict,
@@ -725,25 +734,28 @@ Be honest, data-driven, and actionable.`;
 // ========================================
 
 // Around line 570
-export function buildValidationGraph(streamWriter: StreamWriter) {
+export function buildValidationGraph(
+  streamWriter: StreamWriter,
+  signal?: AbortSignal
+) {
   const workflow = new StateGraph(AgentState);
 
   // Wrap agent nodes to include streaming
   workflow.addNode("competition_agent", (state) =>
-    competitionAgentNode(state, streamWriter)
+    competitionAgentNode(state, streamWriter, signal)
   );
   workflow.addNode("audience_agent", (state) =>
-    audienceAgentNode(state, streamWriter)
+    audienceAgentNode(state, streamWriter, signal)
   );
   workflow.addNode("trend_agent", (state) =>
-    trendAgentNode(state, streamWriter)
+    trendAgentNode(state, streamWriter, signal)
   );
   workflow.addNode("strategy_agent", (state) =>
-    strategyAgentNode(state, streamWriter)
+    strategyAgentNode(state, streamWriter, signal)
   );
   workflow.addNode("barrier", (state) => barrierNode(state, streamWriter));
   workflow.addNode("supervisor", (state) =>
-    supervisorNode(state, streamWriter)
+    supervisorNode(state, streamWriter, signal)
   );
 
   // ... rest of the graph setup remains the same
@@ -770,7 +782,8 @@ export function buildValidationGraph(streamWriter: StreamWriter) {
 // Update function signature (around line 600)
 export async function validateIdeaService(
   input: ValidateIdeaInput,
-  streamWriter: StreamWriter
+  streamWriter: StreamWriter,
+  signal?: AbortSignal // Aborts agents, tools and model calls mid-run
 ) {
   streamWriter.log("🚀 Starting parallel validation workflow", "info");
   streamWriter.log(`Idea: "${input.idea}"`, "info");
@@ -779,7 +792,7 @@ export async function validateIdeaService(
 
   streamWriter.progress(0, 5, "Initializing validation workflow...");
 
-  const graph = buildValidationGraph(streamWriter); // Pass streamWriter to graph
+  const graph = buildValidationGraph(streamWriter, signal); // Pass streamWriter to graph
 
   const initialState = {
     idea: input.idea,
@@ -791,7 +804,7 @@ export async function validateIdeaService(
 
   streamWriter.progress(1, 5, "Executing parallel agent analysis...");
 
-  const result = await graph.invoke(initialState);
+  const result = await graph.invoke(initialState, { signal });
   const duration = ((Date.now() - startTime) / 1000).toFixed(2);
 
   streamWriter.progress(5, 5, "Validation completed!");
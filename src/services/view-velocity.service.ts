@@ -0,0 +1,145 @@
+// services/view-velocity.service.ts
+import { redisClient } from "../config/rt-redis";
+
+// ========================================
+// VIEW VELOCITY
+// Lifetime views per hour can't tell an evergreen video from one spiking
+// right now. Every time a video's stats are fetched (searches, watchlist
+// snapshots) its view count is stored with a timestamp, and velocity is
+// measured between those samples instead.
+// ========================================
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Velocity is measured over (up to) the last day of samples
+const VELOCITY_WINDOW_MS = 24 * HOUR_MS;
+
+// Samples closer together than this measure noise, not velocity
+const MIN_SPAN_MS = HOUR_MS;
+
+// Minimum gap between stored samples of a video; views seen sooner are
+// dropped so repeated searches don't crowd out the day's history
+const MIN_SAMPLE_INTERVAL_MS = 20 * 60 * 1000;
+
+const MAX_SAMPLES_PER_VIDEO = 96;
+const SAMPLE_TTL_SECONDS = 14 * 24 * 60 * 60;
+
+const samplesKey = (videoId: string) => `velocity:video:${videoId}`;
+
+interface ViewSample {
+  at: number; // ms timestamp
+  views: number;
+}
+
+export interface ViewObservation {
+  videoId: string;
+  views: number;
+}
+
+export interface VideoVelocity {
+  viewVelocity: number | null; // Views per hour across recent samples
+  viewAcceleration: number | null; // Change in views per hour, per hour
+}
+
+class ViewVelocityService {
+  /**
+   * Store the current view counts and return each video's velocity
+   * Counts must be fresh (fetched with { cache: false }): each sample is
+   * stamped with the current time. Videos without a usable earlier sample
+   * get nulls.
+   */
+  async track(
+    observations: ViewObservation[],
+  ): Promise<Record<string, VideoVelocity>> {
+    const result: Record<string, VideoVelocity> = {};
+    if (observations.length === 0) return result;
+
+    const now = Date.now();
+
+    try {
+      const reads = redisClient.pipeline();
+      for (const { videoId } of observations) {
+        reads.zrangebyscore(
+          samplesKey(videoId),
+          now - VELOCITY_WINDOW_MS - HOUR_MS,
+          "+inf",
+          "WITHSCORES",
+        );
+      }
+      const history = (await reads.exec()) || [];
+
+      const writes = redisClient.pipeline();
+      observations.forEach(({ videoId, views }, i) => {
+        const [error, raw] = history[i] || [];
+        const samples = error ? [] : this.parseSamples(raw as string[]);
+        const current = { at: now, views };
+
+        result[videoId] = this.measure(samples, current);
+
+        const last = samples[samples.length - 1];
+        if (!last || now - last.at >= MIN_SAMPLE_INTERVAL_MS) {
+          const key = samplesKey(videoId);
+          writes
+            .zadd(key, now, `${now}:${views}`)
+            .zremrangebyrank(key, 0, -MAX_SAMPLES_PER_VIDEO - 1)
+            .expire(key, SAMPLE_TTL_SECONDS);
+        }
+      });
+      await writes.exec();
+    } catch (error) {
+      // Velocity is optional; searches carry on without it
+      console.error("⚠️ View velocity tracking failed:", error);
+      for (const { videoId } of observations) {
+        result[videoId] ??= { viewVelocity: null, viewAcceleration: null };
+      }
+    }
+
+    return result;
+  }
+
+  // ZRANGE ... WITHSCORES returns [member, score, member, score, ...]
+  private parseSamples(raw: string[] = []): ViewSample[] {
+    const samples: ViewSample[] = [];
+    for (let i = 0; i < raw.length; i += 2) {
+      const views = parseInt(raw[i]!.split(":")[1] || "", 10);
+      const at = parseInt(raw[i + 1]!, 10);
+      if (!isNaN(views) && !isNaN(at)) samples.push({ at, views });
+    }
+    return samples;
+  }
+
+  /**
+   * Velocity from the oldest sample in the window to now, and acceleration
+   * from comparing the first and second half of that span
+   */
+  private measure(samples: ViewSample[], current: ViewSample): VideoVelocity {
+    const base = samples.find(
+      (s) =>
+        current.at - s.at <= VELOCITY_WINDOW_MS &&
+        current.at - s.at >= MIN_SPAN_MS,
+    );
+    if (!base) return { viewVelocity: null, viewAcceleration: null };
+
+    const hours = (current.at - base.at) / HOUR_MS;
+    const viewVelocity = Math.max(0, Math.round((current.views - base.views) / hours));
+
+    // Sample closest to the middle of the span splits it into two halves
+    const midpoint = (base.at + current.at) / 2;
+    const mid = samples
+      .filter((s) => s.at > base.at)
+      .sort((a, b) => Math.abs(a.at - midpoint) - Math.abs(b.at - midpoint))[0];
+
+    const halfMinMs = MIN_SPAN_MS / 2;
+    if (!mid || mid.at - base.at < halfMinMs || current.at - mid.at < halfMinMs) {
+      return { viewVelocity, viewAcceleration: null };
+    }
+
+    const earlier = (mid.views - base.views) / ((mid.at - base.at) / HOUR_MS);
+    const later = (current.views - mid.views) / ((current.at - mid.at) / HOUR_MS);
+    const viewAcceleration = Math.round((later - earlier) / (hours / 2));
+
+    return { viewVelocity, viewAcceleration };
+  }
+}
+
+export const viewVelocityService = new ViewVelocityService();
@@ -0,0 +1,368 @@
+// services/watchlist.service.ts
+import youtubeService from "./youtube.service";
+import { viewVelocityService } from "./view-velocity.service";
+import WatchedChannel from "../models/WatchedChannel";
+import ChannelSnapshot from "../models/ChannelSnapshot";
+import type { SnapshotUpload } from "../models/ChannelSnapshot";
+
+// Channels one user can watch
+const MAX_WATCHED_CHANNELS = parseInt(
+  process.env.WATCHLIST_MAX_CHANNELS || "25",
+  10,
+);
+
+// Latest uploads stored with each snapshot
+const SNAPSHOT_UPLOADS = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface WatchlistServiceResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  statusCode?: number;
+}
+
+export interface WatchedChannelItem {
+  channelId: string;
+  title: string;
+  handle: string | null;
+  thumbnail: string | null;
+  addedAt: Date;
+  latest: {
+    date: string;
+    subscribers: number | null;
+    views: number;
+    videoCount: number;
+  } | null;
+}
+
+export interface GrowthPoint {
+  date: string;
+  subscribers: number | null;
+  views: number;
+  videoCount: number;
+  subscribersChange: number | null; // vs. the previous snapshot
+  viewsChange: number | null;
+}
+
+export interface ChannelGrowth {
+  channelId: string;
+  days: number;
+  points: GrowthPoint[]; // Oldest first
+  totals: {
+    subscribers: number | null; // Change over the whole range
+    views: number | null;
+    videos: number | null;
+  };
+}
+
+export interface NewChannelVideo extends SnapshotUpload {
+  videoUrl: string;
+  firstSeen: string; // Snapshot day the video first appeared in
+}
+
+// Snapshots are keyed by UTC day
+const snapshotDay = (date: Date = new Date()): string =>
+  date.toISOString().slice(0, 10);
+
+const change = (from: number | null, to: number | null): number | null =>
+  from === null || to === null ? null : to - from;
+
+export class WatchlistService {
+  /**
+   * Channels watched by a user, with their latest snapshot
+   */
+  async list(userId: string): Promise<WatchedChannelItem[]> {
+    const watched = await WatchedChannel.find({ userId })
+      .sort({ createdAt: -1 })
+      .lean();
+
+    const latest = await ChannelSnapshot.aggregate([
+      { $match: { channelId: { $in: watched.map((w) => w.channelId) } } },
+      { $sort: { date: -1 } },
+      { $group: { _id: "$channelId", snapshot: { $first: "$$ROOT" } } },
+    ]);
+    const latestByChannel = new Map(latest.map((l) => [l._id, l.snapshot]));
+
+    return watched.map((w) => {
+      const snapshot = latestByChannel.get(w.channelId);
+      return {
+        channelId: w.channelId,
+        title: w.title,
+        handle: w.handle || null,
+        thumbnail: w.thumbnail || null,
+        addedAt: w.createdAt,
+        latest: snapshot
+          ? {
+              date: snapshot.date,
+              subscribers: snapshot.subscribers,
+              views: snapshot.views,
+              videoCount: snapshot.videoCount,
+            }
+          : null,
+      };
+    });
+  }
+
+  /**
+   * Start watching a channel (by ID or @handle) and take its first snapshot
+   */
+  async add(
+    userId: string,
+    channelIdOrHandle: string,
+  ): Promise<WatchlistServiceResponse<WatchedChannelItem>> {
+    try {
+      const channelId = await youtubeService.resolveChannelId(channelIdOrHandle);
+      const channel = channelId
+        ? await youtubeService.getChannelInfo(channelId)
+        : null;
+      if (!channel) {
+        return { success: false, error: "Channel not found", statusCode: 404 };
+      }
+
+      if (await WatchedChannel.exists({ userId, channelId: channel.id })) {
+        return {
+          success: false,
+          error: "Channel is already on your watchlist",
+          statusCode: 409,
+        };
+      }
+
+      const count = await WatchedChannel.countDocuments({ userId });
+      if (count >= MAX_WATCHED_CHANNELS) {
+        return {
+          success: false,
+          error: `Watchlist is limited to ${MAX_WATCHED_CHANNELS} channels`,
+          statusCode: 400,
+        };
+      }
+
+      const watched = await WatchedChannel.create({
+        userId,
+        channelId: channel.id,
+        title: channel.snippet.title,
+        handle: channel.snippet.customUrl || null,
+        thumbnail:
+          channel.snippet.thumbnails?.high?.url ||
+          channel.snippet.thumbnails?.default?.url ||
+          null,
+      });
+
+      // Start the series today instead of at the next scheduled run;
+      // if YouTube fails now, the scheduled run takes the first one
+      const [snapshot] = await this.snapshotChannels([channel.id]).catch(
+        (error) => {
+          console.error(`⚠️ First snapshot of ${channel.id} failed:`, error);
+          return [];
+        },
+      );
+
+      return {
+        success: true,
+        data: {
+          channelId: watched.channelId,
+          title: watched.title,
+          handle: watched.handle || null,
+          thumbnail: watched.thumbnail || null,
+          addedAt: watched.createdAt,
+          latest: snapshot
+            ? {
+                date: snapshot.date,
+                subscribers: snapshot.subscribers,
+                views: snapshot.views,
+                videoCount: snapshot.videoCount,
+              }
+            : null,
+        },
+      };
+    } catch (error) {
+      // A simultaneous add of the same channel hit the unique index
+      if ((error as any)?.code === 11000) {
+        return {
+          success: false,
+          error: "Channel is already on your watchlist",
+          statusCode: 409,
+        };
+      }
+
+      console.error("❌ Error adding watched channel:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+      };
+    }
+  }
+
+  /**
+   * Stop watching a channel; returns false if it wasn't watched
+   * Snapshots are kept while anyone else still watches the channel
+   */
+  async remove(userId: string, channelId: string): Promise<boolean> {
+    const result = await WatchedChannel.deleteOne({ userId, channelId });
+    return result.deletedCount > 0;
+  }
+
+  async isWatching(userId: string, channelId: string): Promise<boolean> {
+    return !!(await WatchedChannel.exists({ userId, channelId }));
+  }
+
+  /**
+   * Subscriber, view and video count series for the last `days` days
+   */
+  async getGrowth(channelId: string, days: number): Promise<ChannelGrowth> {
+    const snapshots = await ChannelSnapshot.find({
+      channelId,
+      date: { $gte: snapshotDay(new Date(Date.now() - days * DAY_MS)) },
+    })
+      .sort({ date: 1 })
+      .select("date subscribers views videoCount")
+      .lean();
+
+    const points: GrowthPoint[] = snapshots.map((s, i) => {
+      const previous = snapshots[i - 1];
+      return {
+        date: s.date,
+        subscribers: s.subscribers,
+        views: s.views,
+        videoCount: s.videoCount,
+        subscribersChange: previous
+          ? change(previous.subscribers, s.subscribers)
+          : null,
+        viewsChange: previous ? s.views - previous.views : null,
+      };
+    });
+
+    const first = snapshots[0];
+    const last = snapshots[snapshots.length - 1];
+    const hasRange = !!first && !!last && first !== last;
+
+    return {
+      channelId,
+      days,
+      points,
+      totals: {
+        subscribers: hasRange ? change(first.subscribers, last.subscribers) : null,
+        views: hasRange ? last.views - first.views : null,
+        videos: hasRange ? last.videoCount - first.videoCount : null,
+      },
+    };
+  }
+
+  /**
+   * Videos published in the last `days` days, as seen by the snapshots
+   */
+  async getNewVideos(channelId: string, days: number): Promise<NewChannelVideo[]> {
+    const since = new Date(Date.now() - days * DAY_MS);
+
+    const snapshots = await ChannelSnapshot.find({
+      channelId,
+      date: { $gte: snapshotDay(since) },
+    })
+      .sort({ date: 1 })
+      .select("date latestUploads")
+      .lean();
+
+    // Oldest snapshot first, so firstSeen is kept and views are the latest
+    const videos = new Map<string, NewChannelVideo>();
+    for (const snapshot of snapshots) {
+      for (const upload of snapshot.latestUploads) {
+        if (new Date(upload.publishedAt) < since) continue;
+
+        const existing = videos.get(upload.videoId);
+        videos.set(upload.videoId, {
+          ...upload,
+          videoUrl: `https://www.youtube.com/watch?v=${upload.videoId}`,
+          firstSeen: existing?.firstSeen ?? snapshot.date,
+        });
+      }
+    }
+
+    return Array.from(videos.values()).sort(
+      (a, b) =>
+        new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime(),
+    );
+  }
+
+  /**
+   * Snapshot every watched channel (run daily by the snapshot worker)
+   */
+  async snapshotAll(): Promise<number> {
+    const channelIds: string[] = await WatchedChannel.distinct("channelId");
+    if (channelIds.length === 0) return 0;
+
+    const snapshots = await this.snapshotChannels(channelIds);
+    console.log(
+      `📸 Snapshotted ${snapshots.length}/${channelIds.length} watched channels`,
+    );
+    return snapshots.length;
+  }
+
+  /**
+   * Store today's statistics and latest uploads of the given channels
+   * Reads bypass the response cache so the numbers match capturedAt;
+   * a channel that fails is skipped, so one bad channel can't stop the run,
+   * but a failed channels lookup (e.g. quota) throws so the job is retried
+   */
+  private async snapshotChannels(channelIds: string[]) {
+    const date = snapshotDay();
+    const saved = [];
+
+    for (let i = 0; i < channelIds.length; i += 50) {
+      const items = await youtubeService.fetchChannels(
+        channelIds.slice(i, i + 50),
+        { cache: false },
+      );
+
+      for (const channel of items) {
+        try {
+          const uploads = await youtubeService.getRecentUploads(
+            channel.id,
+            SNAPSHOT_UPLOADS,
+            { cache: false },
+          );
+
+          // Daily samples keep velocity measurable between searches
+          await viewVelocityService.track(
+            uploads.map((v) => ({
+              videoId: v.id,
+              views: parseInt(v.statistics?.viewCount || "0"),
+            })),
+          );
+
+          const snapshot = await ChannelSnapshot.findOneAndUpdate(
+            { channelId: channel.id, date },
+            {
+              $set: {
+                subscribers: channel.statistics.hiddenSubscriberCount
+                  ? null
+                  : parseInt(channel.statistics.subscriberCount || "0"),
+                views: parseInt(channel.statistics.viewCount || "0"),
+                videoCount: parseInt(channel.statistics.videoCount || "0"),
+                latestUploads: uploads.map((v) => ({
+                  videoId: v.id,
+                  title: v.snippet.title,
+                  publishedAt: new Date(v.snippet.publishedAt),
+                  views: parseInt(v.statistics?.viewCount || "0"),
+                })),
+                capturedAt: new Date(),
+              },
+            },
+            { upsert: true, returnDocument: "after" },
+          ).lean();
+
+          if (snapshot) saved.push(snapshot);
+        } catch (error: any) {
+          console.error(`⚠️ Failed to snapshot channel ${channel.id}:`, error.message);
+        }
+      }
+    }
+
+    return saved;
+  }
+}
+
+// Export singleton instance
+export const watchlistService = new WatchlistService();
@@ -0,0 +1,334 @@
+// services/youtube-data.service.ts
+import axios from "axios";
+import dotenv from "dotenv";
+import { redisClient } from "../config/rt-redis";
+import { RedisCache, cacheKey } from "../utils/redisCache";
+
+dotenv.config();
+
+// ========================================
+// YOUTUBE DATA API ACCESS LAYER
+// Every YouTube Data API call (services and agent tools) goes through here:
+// responses are cached in Redis, quota units are counted per key, and
+// exhausted keys are skipped until the quota resets at midnight Pacific.
+// ========================================
+
+const BASE_URL = "https://www.googleapis.com/youtube/v3";
+
+export type YouTubeEndpoint =
+  | "search"
+  | "videos"
+  | "channels"
+  | "playlistItems"
+  | "commentThreads"
+  | "comments";
+
+// Quota cost of one request (https://developers.google.com/youtube/v3/determine_quota_cost)
+const QUOTA_COST: Record<YouTubeEndpoint, number> = {
+  search: 100,
+  videos: 1,
+  channels: 1,
+  playlistItems: 1,
+  commentThreads: 1,
+  comments: 1,
+};
+
+// How long responses stay fresh; statistics move faster than metadata
+const CACHE_TTL_MS: Record<YouTubeEndpoint, number> = {
+  search: 60 * 60 * 1000, // 1 hour
+  videos: 15 * 60 * 1000, // 15 minutes
+  channels: 6 * 60 * 60 * 1000, // 6 hours
+  playlistItems: 60 * 60 * 1000, // 1 hour
+  commentThreads: 10 * 60 * 1000, // 10 minutes
+  comments: 10 * 60 * 1000, // 10 minutes
+};
+
+const DAILY_QUOTA = parseInt(process.env.YOUTUBE_DAILY_QUOTA || "10000", 10);
+
+// Ledger entries outlive the quota day so yesterday stays visible
+const LEDGER_TTL_SECONDS = 48 * 60 * 60;
+
+// Keys are labelled by their env variable, so the ledger never stores secrets
+const API_KEY_VARS = [
+  "YOUTUBE_API_KEY",
+  "YOUTUBE_API_KEY2",
+  "YOUTUBE_API_KEY3",
+  "YOUTUBE_API_KEY4",
+  "YOUTUBE_API_KEY5",
+];
+
+interface ApiKey {
+  name: string;
+  value: string;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  cache?: boolean; // Defaults to true
+}
+
+export interface KeyUsage {
+  name: string;
+  used: number;
+  remaining: number;
+  exhausted: boolean;
+}
+
+export interface QuotaUsage {
+  date: string; // Quota day (Pacific time)
+  dailyQuotaPerKey: number;
+  keys: KeyUsage[];
+  total: { used: number; remaining: number };
+}
+
+export class YouTubeQuotaExceededError extends Error {
+  constructor() {
+    super("YouTube API quota exhausted for today on all keys");
+    this.name = "YouTubeQuotaExceededError";
+  }
+}
+
+// YouTube resets quotas at midnight Pacific time
+const quotaDay = (date: Date = new Date()): string =>
+  new Intl.DateTimeFormat("en-CA", {
+    timeZone: "America/Los_Angeles",
+  }).format(date);
+
+const usageKey = (day: string) => `ytquota:${day}:used`;
+const exhaustedKey = (day: string) => `ytquota:${day}:exhausted`;
+
+class YouTubeDataService {
+  private keys: ApiKey[];
+  private caches: Record<YouTubeEndpoint, RedisCache>;
+
+  constructor() {
+    const seen = new Set<string>();
+    this.keys = API_KEY_VARS.map((name) => ({
+      name,
+      value: process.env[name] || "",
+    })).filter((key) => {
+      if (!key.value || seen.has(key.value)) return false;
+      seen.add(key.value);
+      return true;
+    });
+
+    if (this.keys.length === 0) {
+      throw new Error("YouTube API key is not defined in environment variables");
+    }
+
+    this.caches = Object.fromEntries(
+      (Object.keys(QUOTA_COST) as YouTubeEndpoint[]).map((endpoint) => [
+        endpoint,
+        new RedisCache(`youtube:${endpoint}`, {
+          ttlMs: CACHE_TTL_MS[endpoint],
+          maxEntries: endpoint === "search" ? 2000 : 5000,
+        }),
+      ]),
+    ) as Record<YouTubeEndpoint, RedisCache>;
+  }
+
+  /**
+   * GET a Data API endpoint and return the response body
+   * Array params (part, id, type) may be passed as arrays
+   */
+  async request<T = any>(
+    endpoint: YouTubeEndpoint,
+    params: Record<string, any>,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    const query = this.normalizeParams(params);
+    const useCache = options.cache !== false;
+    const key = cacheKey(query);
+
+    if (useCache) {
+      const cached = await this.caches[endpoint].get<T>(key);
+      if (cached !== null) return cached;
+    }
+
+    const data = await this.fetchWithRotation<T>(endpoint, query, options.signal);
+
+    if (useCache) {
+      await this.caches[endpoint].set(key, data);
+    }
+
+    return data;
+  }
+
+  /**
+   * Units used today by every key
+   */
+  async getQuotaUsage(): Promise<QuotaUsage> {
+    const day = quotaDay();
+    const [used, exhausted] = await Promise.all([
+      redisClient.hgetall(usageKey(day)),
+      redisClient.smembers(exhaustedKey(day)),
+    ]);
+
+    const keys = this.keys.map((key) => {
+      const units = parseInt(used[key.name] || "0", 10);
+      const isExhausted = exhausted.includes(key.name) || units >= DAILY_QUOTA;
+      return {
+        name: key.name,
+        used: units,
+        remaining: isExhausted ? 0 : Math.max(0, DAILY_QUOTA - units),
+        exhausted: isExhausted,
+      };
+    });
+
+    return {
+      date: day,
+      dailyQuotaPerKey: DAILY_QUOTA,
+      keys,
+      total: {
+        used: keys.reduce((sum, key) => sum + key.used, 0),
+        remaining: keys.reduce((sum, key) => sum + key.remaining, 0),
+      },
+    };
+  }
+
+  // Try keys from least to most used until one succeeds
+  private async fetchWithRotation<T>(
+    endpoint: YouTubeEndpoint,
+    params: Record<string, string | number>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const cost = QUOTA_COST[endpoint];
+    const tried = new Set<string>();
+
+    while (true) {
+      const key = await this.pickKey(cost, tried);
+      if (!key) throw new YouTubeQuotaExceededError();
+      tried.add(key.name);
+
+      try {
+        return await this.getWithRetry<T>(endpoint, params, key, cost, signal);
+      } catch (error: any) {
+        if (this.isQuotaError(error)) {
+          console.warn(`⚠️ YouTube quota exhausted on ${key.name}, rotating key`);
+          await this.markExhausted(key);
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  private async pickKey(cost: number, exclude: Set<string>): Promise<ApiKey | null> {
+    const day = quotaDay();
+
+    let used: Record<string, string> = {};
+    let exhausted: string[] = [];
+    try {
+      [used, exhausted] = await Promise.all([
+        redisClient.hgetall(usageKey(day)),
+        redisClient.smembers(exhaustedKey(day)),
+      ]);
+    } catch (error) {
+      // Without the ledger, fall back to plain rotation
+      console.error("YouTube quota ledger read error:", error);
+    }
+
+    const candidates = this.keys
+      .filter((key) => !exclude.has(key.name) && !exhausted.includes(key.name))
+      .map((key) => ({ key, used: parseInt(used[key.name] || "0", 10) }))
+      .filter((candidate) => candidate.used + cost <= DAILY_QUOTA)
+      .sort((a, b) => a.used - b.used);
+
+    return candidates[0]?.key || null;
+  }
+
+  private async recordUsage(key: ApiKey, units: number): Promise<void> {
+    const day = quotaDay();
+    try {
+      await redisClient
+        .multi()
+        .hincrby(usageKey(day), key.name, units)
+        .expire(usageKey(day), LEDGER_TTL_SECONDS)
+        .exec();
+    } catch (error) {
+      console.error("YouTube quota ledger write error:", error);
+    }
+  }
+
+  private async markExhausted(key: ApiKey): Promise<void> {
+    const day = quotaDay();
+    try {
+      await redisClient
+        .multi()
+        .sadd(exhaustedKey(day), key.name)
+        .expire(exhaustedKey(day), LEDGER_TTL_SECONDS)
+        .exec();
+    } catch (error) {
+      console.error("YouTube quota ledger write error:", error);
+    }
+  }
+
+  // The key's daily quota is spent; it stays out until Pacific midnight
+  private isQuotaError(error: any): boolean {
+    const reason = error.response?.data?.error?.errors?.[0]?.reason;
+    return (
+      error.response?.status === 403 &&
+      ["quotaExceeded", "dailyLimitExceeded"].includes(reason)
+    );
+  }
+
+  // Per-second throttling: worth retrying on the same key after a pause
+  private isThrottleError(error: any): boolean {
+    const status = error.response?.status;
+    const reason = error.response?.data?.error?.errors?.[0]?.reason;
+    return (
+      status === 429 ||
+      (status === 403 &&
+        ["rateLimitExceeded", "userRateLimitExceeded"].includes(reason))
+    );
+  }
+
+  // GET an endpoint with one key, retrying on throttling and server errors
+  private async getWithRetry<T>(
+    endpoint: YouTubeEndpoint,
+    params: Record<string, string | number>,
+    key: ApiKey,
+    cost: number,
+    signal?: AbortSignal,
+    maxRetries: number = 3,
+  ): Promise<T> {
+    let retries = 0;
+
+    while (true) {
+      // YouTube charges for every attempt, whether or not it succeeds
+      await this.recordUsage(key, cost);
+
+      try {
+        const response = await axios.get<T>(`${BASE_URL}/${endpoint}`, {
+          params: { ...params, key: key.value },
+          signal,
+        });
+        return response.data;
+      } catch (error: any) {
+        if (this.isThrottleError(error) || error.response?.status >= 500) {
+          retries++;
+          if (retries >= maxRetries) {
+            throw new Error(
+              `Failed after ${maxRetries} retries: ${error.message}`,
+            );
+          }
+          await new Promise((resolve) => setTimeout(resolve, 2000 * retries));
+        } else {
+          throw error;
+        }
+      }
+    }
+  }
+
+  // Join array params and drop empty ones so equal requests share a cache entry
+  private normalizeParams(params: Record<string, any>): Record<string, string | number> {
+    const normalized: Record<string, string | number> = {};
+    for (const [name, value] of Object.entries(params)) {
+      if (value === undefined || value === null || name === "key") continue;
+      normalized[name] = Array.isArray(value) ? value.join(",") : value;
+    }
+    return normalized;
+  }
+}
+
+export const youtubeData = new YouTubeDataService();
@@ -1,4 +1,3 @@
-import axios from "axios";
 import { YoutubeTranscript } from "youtube-transcript";
 import { Supadata } from "@supadata/js";
 import dotenv from "dotenv";
@@ -6,14 +5,9 @@ import { YoutubeLoader } from "@langchain/community/document_loaders/web/youtube
 dotenv.config();
 import z from "zod";
 import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
-const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY! as string;
-const YOUTUBE_API_KEY2 = process.env.YOUTUBE_API_KEY2! as string;
-const YOUTUBE_API_KEY3 = process.env.YOUTUBE_API_KEY3! as string;
-const YOUTUBE_API_KEY4 = process.env.YOUTUBE_API_KEY4! as string;
-const YOUTUBE_API_KEY5 = process.env.YOUTUBE_API_KEY5! as string;
-if (!YOUTUBE_API_KEY) {
-  throw new Error("YouTube API key is not defined in environment variables");
-}
+import { youtubeData } from "./youtube-data.service";
+import type { RequestOptions } from "./youtube-data.service";
+import { RedisCache } from "../utils/redisCache";
 // --- Interfaces (Updated for Advanced Features) ---
 export interface SearchFilters {
   duration?: "any" | "long" | "medium" | "short";
@@ -28,8 +22,21 @@ export interface YouTubeComment {
   likeCount: number;
   replyCount: number;
   relevanceScore: number;
+  parentId?: string; // Set on replies
+}
+
+export interface FetchCommentsOptions {
+  maxComments?: number;
+  includeReplies?: boolean;
 }
 
+// Top-level threads fetched per requested comment before relevance ranking
+const COMMENT_FETCH_MULTIPLIER = 3;
+
+// Replies fetched per requested comment; counted separately so a video with
+// thousands of threads still gets its discussions
+const REPLY_FETCH_MULTIPLIER = 1;
+
 export interface VideoTranscript {
   text: string;
   available: boolean;
@@ -40,6 +47,9 @@ export interface SearchFilters {
   order?: "date" | "relevance" | "viewCount" | "rating";
   type?: "video" | "channel" | "playlist";
   publishedAfter?: string;
+  publishedBefore?: string;
+  regionCode?: string;
+  relevanceLanguage?: string;
   pageToken?: string; // <--- ✅ ADDED THIS
 }
 
@@ -100,6 +110,8 @@ export interface ChannelStats {
     title: string;
     description: string;
     customUrl?: string;
+    publishedAt?: string;
+    thumbnails?: any;
   };
 }
 const TranscriptSummarySchema = z.object({
@@ -123,22 +135,41 @@ export interface TopicAnalysis {
   avgComments?: number;
 }
 
-class YouTubeService {
-  private apiKey: string;
-  private apiKey2: string;
-  private apiKey3: string;
-  private apiKey4: string;
-  private apiKey5: string;
-  private baseUrl = "https://www.googleapis.com/youtube/v3";
-
-  constructor() {
-    this.apiKey = YOUTUBE_API_KEY!;
-    this.apiKey2 = YOUTUBE_API_KEY2!;
-    this.apiKey3 = YOUTUBE_API_KEY3!;
-    this.apiKey4 = YOUTUBE_API_KEY4!;
-    this.apiKey5 = YOUTUBE_API_KEY5!;
-  }
+export interface ChannelBaseline {
+  channelId: string;
+  medianViews: number; // Median views of the channel's recent uploads
+  sampleSize: number;
+  computedAt: string;
+}
+
+// Recent uploads used to compute a channel's baseline
+const BASELINE_SAMPLE_SIZE = 20;
+
+// Channels fetched concurrently when computing baselines
+const BASELINE_CONCURRENCY = 10;
+
+const baselineCache = new RedisCache("channel-baselines", {
+  ttlMs: 24 * 60 * 60 * 1000, // 24 hours
+  maxEntries: 20000,
+});
+
+// Subscriber counts move slowly; shared by every search
+const subscriberCache = new RedisCache("channel-subscribers", {
+  ttlMs: 6 * 60 * 60 * 1000, // 6 hours
+  maxEntries: 50000,
+});
 
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? Math.round((sorted[mid - 1]! + sorted[mid]!) / 2)
+    : sorted[mid]!;
+};
+
+// API keys, caching, quota and retries are handled by youtube-data.service
+class YouTubeService {
   // ===== COMMENT & TRANSCRIPT FUNCTIONS =====
 
   extractVideoId(url: string): string | null {
@@ -157,61 +188,73 @@ class YouTubeService {
     return null;
   }
 
-  async fetchAllComments(videoId: string): Promise<YouTubeComment[]> {
+  async fetchAllComments(
+    videoId: string,
+    options: FetchCommentsOptions = {},
+  ): Promise<YouTubeComment[]> {
     const comments: YouTubeComment[] = [];
     let pageToken: string | undefined = undefined;
-    let retries = 0;
-    const maxRetries = 3;
+
+    // With a comment budget, stop paging once there are enough candidates to rank
+    const fetchLimit = options.maxComments
+      ? options.maxComments * COMMENT_FETCH_MULTIPLIER
+      : Infinity;
 
     try {
       do {
-        try {
-          const response: any = await axios.get(
-            `${this.baseUrl}/commentThreads`,
-            {
-              params: {
-                part: "snippet",
-                videoId: videoId,
-                maxResults: 100,
-                pageToken: pageToken,
-                key: this.apiKey,
-                order: "relevance",
-              },
-            },
-          );
+        // Pages are large and only read once (reports are kept in Mongo)
+        const response: any = await youtubeData.request(
+          "commentThreads",
+          {
+            part: "snippet",
+            videoId: videoId,
+            maxResults: 100,
+            pageToken: pageToken,
+            order: "relevance",
+          },
+          { cache: false },
+        );
 
-          const items = response.data.items || [];
+        const items = response.items || [];
 
-          for (const item of items) {
-            const comment = item.snippet.topLevelComment.snippet;
-            const likeCount = comment.likeCount || 0;
-            const replyCount = item.snippet.totalReplyCount || 0;
+        for (const item of items) {
+          const comment = item.snippet.topLevelComment.snippet;
+          const likeCount = comment.likeCount || 0;
+          const replyCount = item.snippet.totalReplyCount || 0;
 
-            comments.push({
-              id: item.id,
-              text: comment.textDisplay,
-              likeCount,
-              replyCount,
-              relevanceScore: likeCount + replyCount,
-            });
-          }
+          comments.push({
+            id: item.id,
+            text: comment.textDisplay,
+            likeCount,
+            replyCount,
+            relevanceScore: likeCount + replyCount,
+          });
+        }
 
-          pageToken = response.data.nextPageToken;
-          retries = 0;
-        } catch (error: any) {
-          if (error.response?.status === 429 || error.response?.status >= 500) {
-            retries++;
-            if (retries >= maxRetries) {
-              throw new Error(
-                `Failed after ${maxRetries} retries: ${error.message}`,
-              );
-            }
-            await new Promise((resolve) => setTimeout(resolve, 2000 * retries));
-          } else {
-            throw error;
-          }
+        pageToken = response.nextPageToken;
+      } while (pageToken && comments.length < fetchLimit);
+
+      if (options.includeReplies) {
+        const replyLimit = options.maxComments
+          ? options.maxComments * REPLY_FETCH_MULTIPLIER
+          : Infinity;
+        let replyCount = 0;
+
+        // Most relevant discussions first, so the budget goes to the best threads
+        const threads = comments
+          .filter((c) => c.replyCount > 0)
+          .sort((a, b) => b.relevanceScore - a.relevanceScore);
+
+        for (const thread of threads) {
+          if (replyCount >= replyLimit) break;
+          const replies = await this.fetchReplies(
+            thread.id,
+            replyLimit - replyCount,
+          );
+          replyCount += replies.length;
+          comments.push(...replies);
         }
-      } while (pageToken);
+      }
 
       console.log(
         `✅ Fetched ${comments.length} comments from video ${videoId}`,
@@ -223,6 +266,52 @@ class YouTubeService {
     }
   }
 
+  // Fetch the replies of a comment thread (best-effort, never throws)
+  async fetchReplies(
+    parentId: string,
+    limit: number = Infinity,
+  ): Promise<YouTubeComment[]> {
+    const replies: YouTubeComment[] = [];
+    let pageToken: string | undefined = undefined;
+
+    try {
+      do {
+        const response: any = await youtubeData.request(
+          "comments",
+          {
+            part: "snippet",
+            parentId,
+            maxResults: 100,
+            pageToken,
+          },
+          { cache: false },
+        );
+
+        for (const item of response.items || []) {
+          const likeCount = item.snippet.likeCount || 0;
+
+          replies.push({
+            id: item.id,
+            text: item.snippet.textDisplay,
+            likeCount,
+            replyCount: 0,
+            relevanceScore: likeCount,
+            parentId,
+          });
+        }
+
+        pageToken = response.nextPageToken;
+      } while (pageToken && replies.length < limit);
+    } catch (error: any) {
+      console.warn(
+        `⚠️ Failed to fetch replies for thread ${parentId}:`,
+        error.message,
+      );
+    }
+
+    return replies.slice(0, limit);
+  }
+
   filterTopComments(
     comments: YouTubeComment[],
     maxComments: number = 5000,
@@ -435,7 +524,6 @@ ${result.key_moments.map((m) => `- ${m.topic}: ${m.description}`).join("\n")}
         type: filters.type || "video",
         maxResults,
         order: filters.order || "relevance",
-        key: this.apiKey2,
       };
 
       if (
@@ -450,16 +538,24 @@ ${result.key_moments.map((m) => `- ${m.topic}: ${m.description}`).join("\n")}
         params.publishedAfter = filters.publishedAfter;
       }
 
+      if (filters.publishedBefore) {
+        params.publishedBefore = filters.publishedBefore;
+      }
+
+      if (filters.regionCode) {
+        params.regionCode = filters.regionCode;
+      }
+
+      if (filters.relevanceLanguage) {
+        params.relevanceLanguage = filters.relevanceLanguage;
+      }
+
       // ✅ FIX: Actually use the pageToken
       if (filters.pageToken) {
         params.pageToken = filters.pageToken;
       }
 
-      const response = await axios.get<YouTubeSearchResult>(
-        `${this.baseUrl}/search`,
-        { params },
-      );
-      return response.data;
+      return await youtubeData.request<YouTubeSearchResult>("search", params);
     } catch (error: any) {
       console.error(
         "YouTube API search error:",
@@ -469,45 +565,57 @@ ${result.key_moments.map((m) => `- ${m.topic}: ${m.description}`).join("\n")}
     }
   }
 
-  async getVideoStats(videoIds: string[]): Promise<YouTubeVideoStats> {
+  // Pass { cache: false } when the view counts must be current
+  async getVideoStats(
+    videoIds: string[],
+    options: RequestOptions = {},
+  ): Promise<YouTubeVideoStats> {
     if (videoIds.length === 0) return { items: [] };
 
     try {
-      const response = await axios.get<YouTubeVideoStats>(
-        `${this.baseUrl}/videos`,
+      return await youtubeData.request<YouTubeVideoStats>(
+        "videos",
         {
-          params: {
-            part: "statistics,snippet,contentDetails",
-            id: videoIds.join(","),
-            key: this.apiKey3,
-          },
+          part: "statistics,snippet,contentDetails",
+          id: videoIds.join(","),
         },
+        options,
       );
-
-      return response.data;
     } catch (error) {
       console.error("YouTube API stats error:", error);
       throw new Error("Failed to get video statistics");
     }
   }
 
-  async getChannelsStats(
+  /**
+   * Stats and snippet of up to 50 channels; API errors are thrown
+   * Channels YouTube doesn't know are left out
+   */
+  async fetchChannels(
     channelIds: string[],
-  ): Promise<{ items: ChannelStats[] }> {
-    if (channelIds.length === 0) return { items: [] };
+    options: RequestOptions = {},
+  ): Promise<ChannelStats[]> {
+    if (channelIds.length === 0) return [];
 
     const uniqueIds = [...new Set(channelIds)].slice(0, 50);
+    const response = await youtubeData.request(
+      "channels",
+      {
+        part: "statistics,snippet",
+        id: uniqueIds.join(","),
+      },
+      options,
+    );
+    return response.items || [];
+  }
 
+  // Best-effort fetchChannels: API errors read as no channels
+  async getChannelsStats(
+    channelIds: string[],
+    options: RequestOptions = {},
+  ): Promise<{ items: ChannelStats[] }> {
     try {
-      const response = await axios.get(`${this.baseUrl}/channels`, {
-        params: {
-          part: "statistics,snippet",
-          id: uniqueIds.join(","),
-          key: this.apiKey4,
-        },
-      });
-
-      return { items: response.data.items || [] };
+      return { items: await this.fetchChannels(channelIds, options) };
     } catch (error) {
       console.error("YouTube API channel stats error:", error);
       return { items: [] };
@@ -517,19 +625,16 @@ ${result.key_moments.map((m) => `- ${m.topic}: ${m.description}`).join("\n")}
   // Get Channel Stats (Single Channel)
   async getChannelStats(channelId: string): Promise<any> {
     try {
-      const response = await axios.get(`${this.baseUrl}/channels`, {
-        params: {
-          part: "statistics,snippet",
-          id: channelId,
-          key: this.apiKey5,
-        },
+      const response = await youtubeData.request("channels", {
+        part: "statistics,snippet",
+        id: channelId,
       });
 
-      if (!response.data.items || response.data.items.length === 0) {
+      if (!response.items || response.items.length === 0) {
         return this.getMockChannelStats(channelId);
       }
 
-      const channel = response.data.items[0];
+      const channel = response.items[0];
       return {
         id: channel.id,
         statistics: channel.statistics || {
@@ -565,9 +670,202 @@ ${result.key_moments.map((m) => `- ${m.topic}: ${m.description}`).join("\n")}
     };
   }
 
-  async getChannelInfo(channelId: string) {
-    const stats = await this.getChannelsStats([channelId]);
-    return stats.items[0] || null;
+  /**
+   * Public subscriber counts, fetched in batches of 50 (cached per channel)
+   * Channels that hide their count (or can't be read) map to null
+   */
+  async getSubscriberCounts(
+    channelIds: string[],
+  ): Promise<Record<string, number | null>> {
+    const counts: Record<string, number | null> = {};
+    const missing: string[] = [];
+
+    for (const channelId of [...new Set(channelIds)]) {
+      const cached = await subscriberCache.get<{ subscribers: number | null }>(
+        channelId,
+      );
+      if (cached) {
+        counts[channelId] = cached.subscribers;
+      } else {
+        missing.push(channelId);
+      }
+    }
+
+    for (let i = 0; i < missing.length; i += 50) {
+      const chunk = missing.slice(i, i + 50);
+      const channelRes = await this.getChannelsStats(chunk);
+
+      for (const channel of channelRes.items) {
+        const subscribers = channel.statistics?.hiddenSubscriberCount
+          ? null
+          : parseInt(channel.statistics?.subscriberCount || "0");
+        counts[channel.id] = subscribers;
+        await subscriberCache.set(channel.id, { subscribers });
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Median views over each channel's recent uploads (cached per channel)
+   * Channels without public uploads are left out of the result
+   */
+  async getChannelBaselines(
+    channelIds: string[],
+  ): Promise<Record<string, ChannelBaseline>> {
+    const baselines: Record<string, ChannelBaseline> = {};
+    const missing: string[] = [];
+
+    for (const channelId of [...new Set(channelIds)]) {
+      const cached = await baselineCache.get<ChannelBaseline>(channelId);
+      if (cached) {
+        baselines[channelId] = cached;
+      } else {
+        missing.push(channelId);
+      }
+    }
+
+    if (missing.length === 0) return baselines;
+
+    try {
+      // 1. Uploads playlist of every channel (same approach as scrapeTopChannelsTool)
+      const uploadsPlaylists: Record<string, string> = {};
+      for (let i = 0; i < missing.length; i += 50) {
+        const response = await youtubeData.request("channels", {
+          part: "contentDetails",
+          id: missing.slice(i, i + 50).join(","),
+        });
+        for (const channel of response.items || []) {
+          const playlistId = channel.contentDetails?.relatedPlaylists?.uploads;
+          if (playlistId) uploadsPlaylists[channel.id] = playlistId;
+        }
+      }
+
+      // 2. Recent upload IDs per channel
+      const uploadsByChannel: Record<string, string[]> = {};
+      const channelsWithUploads = Object.keys(uploadsPlaylists);
+      for (let i = 0; i < channelsWithUploads.length; i += BASELINE_CONCURRENCY) {
+        await Promise.all(
+          channelsWithUploads.slice(i, i + BASELINE_CONCURRENCY).map(async (channelId) => {
+            try {
+              const response = await youtubeData.request("playlistItems", {
+                part: "contentDetails",
+                playlistId: uploadsPlaylists[channelId],
+                maxResults: BASELINE_SAMPLE_SIZE,
+              });
+              uploadsByChannel[channelId] = (response.items || [])
+                .map((item: any) => item.contentDetails?.videoId)
+                .filter(Boolean);
+            } catch (error: any) {
+              console.warn(`⚠️ Failed to fetch uploads for ${channelId}:`, error.message);
+            }
+          }),
+        );
+      }
+
+      // 3. View counts of all those uploads, batched across channels
+      const viewsByVideo: Record<string, number> = {};
+      const uploadIds = Object.values(uploadsByChannel).flat();
+      for (let i = 0; i < uploadIds.length; i += 50) {
+        const response = await youtubeData.request("videos", {
+          part: "statistics",
+          id: uploadIds.slice(i, i + 50).join(","),
+        });
+        for (const video of response.items || []) {
+          viewsByVideo[video.id] = parseInt(video.statistics?.viewCount || "0");
+        }
+      }
+
+      const computedAt = new Date().toISOString();
+      for (const [channelId, videoIds] of Object.entries(uploadsByChannel)) {
+        const views = videoIds
+          .map((id) => viewsByVideo[id])
+          .filter((v): v is number => v !== undefined);
+        if (views.length === 0) continue;
+
+        const baseline: ChannelBaseline = {
+          channelId,
+          medianViews: median(views),
+          sampleSize: views.length,
+          computedAt,
+        };
+        baselines[channelId] = baseline;
+        await baselineCache.set(channelId, baseline);
+      }
+
+      console.log(
+        `✅ Computed baselines for ${missing.length} channels (${Object.keys(baselines).length} total)`,
+      );
+    } catch (error: any) {
+      // Callers fall back to a generic baseline for channels left out
+      console.error("Error computing channel baselines:", error.message);
+    }
+
+    return baselines;
+  }
+
+  /**
+   * Stats and snippet of one channel (null if YouTube has no such channel)
+   * Unlike getChannelsStats, API errors are thrown rather than read as "no
+   * channel", so callers don't report an outage as a missing channel
+   */
+  async getChannelInfo(channelId: string): Promise<ChannelStats | null> {
+    const [channel] = await this.fetchChannels([channelId]);
+    return channel || null;
+  }
+
+  /**
+   * Resolve a channel ID or @handle to a channel ID (null if not found)
+   */
+  async resolveChannelId(channelIdOrHandle: string): Promise<string | null> {
+    const input = channelIdOrHandle.trim();
+    if (/^UC[\w-]{22}$/.test(input)) return input;
+
+    const handle = input.startsWith("@") ? input : `@${input}`;
+    const response = await youtubeData.request("channels", {
+      part: "id",
+      forHandle: handle,
+    });
+    return response.items?.[0]?.id || null;
+  }
+
+  /**
+   * Stats of a channel's most recent uploads, newest first (max 50)
+   */
+  async getRecentUploads(
+    channelId: string,
+    limit: number = 50,
+    options: RequestOptions = {},
+  ): Promise<YouTubeVideoStats["items"]> {
+    // The uploads playlist ID never changes, so it can always come from cache
+    const channel = await youtubeData.request("channels", {
+      part: "contentDetails",
+      id: channelId,
+    });
+    const playlistId =
+      channel.items?.[0]?.contentDetails?.relatedPlaylists?.uploads;
+    if (!playlistId) return [];
+
+    const playlist = await youtubeData.request(
+      "playlistItems",
+      {
+        part: "contentDetails",
+        playlistId,
+        maxResults: Math.min(limit, 50),
+      },
+      options,
+    );
+    const videoIds: string[] = (playlist.items || [])
+      .map((item: any) => item.contentDetails?.videoId)
+      .filter(Boolean);
+
+    const stats = await this.getVideoStats(videoIds, options);
+    return [...(stats.items || [])].sort(
+      (a, b) =>
+        new Date(b.snippet.publishedAt).getTime() -
+        new Date(a.snippet.publishedAt).getTime(),
+    );
   }
 
   async analyzeTopicPerformance(keyword: string): Promise<TopicAnalysis> {
@@ -0,0 +1,123 @@
+import type { EnrichedVideoData } from '../utils/interfaces';
+
+export interface DigestSearch {
+  name: string;
+  query: string;
+  outlierThreshold: number;
+  videos: EnrichedVideoData[];
+}
+
+interface SavedSearchDigestProps {
+  userName?: string;
+  searches: DigestSearch[];
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatCount = (n: number): string =>
+  n >= 1_000_000
+    ? `${(n / 1_000_000).toFixed(1)}M`
+    : n >= 1_000
+      ? `${(n / 1_000).toFixed(1)}K`
+      : `${n}`;
+
+export const generateSavedSearchDigestTemplate = ({
+  userName,
+  searches,
+}: SavedSearchDigestProps): string => {
+  const brandColor = '#1f2937'; // Dark Slate Grey
+  const accentColor = '#D6211E';
+
+  const baseUrl = process.env.BASE_URL || 'http://localhost:3000';
+  const currentYear = new Date().getFullYear();
+  const total = searches.reduce((sum, search) => sum + search.videos.length, 0);
+
+  const sections = searches
+    .map((search) => {
+      const rows = search.videos
+        .map(
+          (video) => `
+                <tr>
+                  <td style="padding: 12px 0; border-bottom: 1px solid #e5e7eb;">
+                    <a href="${video.videoUrl}" style="font-size: 15px; font-weight: 600; color: ${brandColor}; text-decoration: none;">${escapeHtml(video.title)}</a>
+                    <p style="margin: 4px 0 0; font-size: 13px; color: #6b7280;">
+                      ${escapeHtml(video.channel)} &middot; ${formatCount(video.views)} views &middot;
+                      <strong style="color: ${accentColor};">${(video.outlierScore / 100).toFixed(1)}x</strong> the channel's usual
+                    </p>
+                  </td>
+                </tr>`,
+        )
+        .join('');
+
+      return `
+          <h3 style="margin: 30px 0 4px; font-size: 18px; font-weight: 600; color: ${brandColor};">${escapeHtml(search.name)}</h3>
+          <p style="margin: 0 0 10px; font-size: 13px; color: #6b7280;">"${escapeHtml(search.query)}" &middot; outliers above ${(search.outlierThreshold / 100).toFixed(1)}x</p>
+          <table role="presentation" border="0" cellpadding="0" cellspacing="0" style="width: 100%;">${rows}
+          </table>`;
+    })
+    .join('');
+
+  return `
+<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">
+<html xmlns="http://www.w3.org/1999/xhtml" lang="en">
+<head>
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <meta http-equiv="Content-Type" content="text/html; charset=UTF-8" />
+  <title>New outliers in your saved searches</title>
+  <style type="text/css">
+    body, table, td, a { -webkit-text-size-adjust: 100%; -ms-text-size-adjust: 100%; }
+    table, td { mso-table-lspace: 0pt; mso-table-rspace: 0pt; }
+    table { border-collapse: collapse !important; }
+    body { height: 100% !important; margin: 0 !important; padding: 0 !important; width: 100% !important; background-color: #f7f7f9; color: ${brandColor}; }
+
+    /* Mobile Styles */
+    @media screen and (max-width: 600px) {
+      .email-container { width: 100% !important; }
+      .content-padding { padding: 20px !important; }
+    }
+  </style>
+</head>
+<body style="margin: 0; padding: 0; background-color: #f7f7f9;">
+
+  <div style="display: none; max-height: 0px; overflow: hidden;">
+    ${total} new outlier${total === 1 ? '' : 's'} in your saved searches.
+  </div>
+
+  <center style="width: 100%; background-color: #f7f7f9; padding: 50px 0;">
+    <table role="presentation" border="0" cellpadding="0" cellspacing="0" class="email-container" style="max-width: 600px; width: 100%; background-color: #ffffff; border-radius: 8px; overflow: hidden;">
+
+      <tr>
+        <td class="content-padding" style="padding: 40px 40px 30px 40px; border-bottom: 2px solid #eeeeee;">
+          <img src="${baseUrl}/logo.png" alt="Vidly" style="height: 35px; width: auto; margin-bottom: 15px; display: block;" />
+          <h1 style="margin: 0; font-size: 26px; font-weight: 700; color: ${brandColor};">New outliers since the last check</h1>
+          <p style="margin: 8px 0 0; font-size: 15px; color: #6b7280;">${userName ? `Hi ${escapeHtml(userName)}, these` : 'These'} videos just showed up in your saved searches and are beating their channel's usual views.</p>
+        </td>
+      </tr>
+
+      <tr>
+        <td class="content-padding" style="padding: 10px 40px 40px 40px;">${sections}
+        </td>
+      </tr>
+
+      <tr>
+        <td align="center" style="padding: 30px 40px; background-color: #f7f7f9; border-top: 1px solid #e5e7eb;">
+          <p style="margin: 0 0 8px; color: #9ca3af; font-size: 13px;">
+            You get this email because alerts are on for these saved searches.
+          </p>
+          <p style="margin: 0; color: #d1d5db; font-size: 12px;">
+            &copy; ${currentYear} Vidly.
+          </p>
+        </td>
+      </tr>
+
+    </table>
+  </center>
+</body>
+</html>
+  `.trim();
+};
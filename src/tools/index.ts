@@ -1,7 +1,7 @@
 // src/tools/index.ts
 import { DynamicStructuredTool } from "@langchain/core/tools";
 import { z } from "zod";
-import { google } from "googleapis";
+import type { youtube_v3 } from "googleapis";
 import googleTrends from "google-trends-api";
 import type {
   SearchDemandResult,
@@ -15,15 +15,36 @@ import type {
   TranscriptAnalysisResult,
   EstimatedMetricsResult,
 } from "../schemas/validation.schemas";
+import { youtubeData } from "../services/youtube-data.service";
+import type { YouTubeEndpoint } from "../services/youtube-data.service";
+import { monetizationModel } from "../services/monetization.service";
 
 // ========================================
 // YOUTUBE API SETUP
 // ========================================
 
-const youtube = google.youtube({
-  version: "v3",
-  auth: process.env.YOUTUBE_API_KEY!,
-});
+// Same call shape as the googleapis client, but served by the shared data
+// layer (response cache, quota ledger, key rotation)
+const list =
+  <T>(endpoint: YouTubeEndpoint) =>
+  async (
+    params: Record<string, any>,
+    options?: { signal?: AbortSignal },
+  ): Promise<{ data: T }> => ({
+    data: await youtubeData.request<T>(endpoint, params, options),
+  });
+
+const youtube = {
+  search: { list: list<youtube_v3.Schema$SearchListResponse>("search") },
+  videos: { list: list<youtube_v3.Schema$VideoListResponse>("videos") },
+  channels: { list: list<youtube_v3.Schema$ChannelListResponse>("channels") },
+  playlistItems: {
+    list: list<youtube_v3.Schema$PlaylistItemListResponse>("playlistItems"),
+  },
+  commentThreads: {
+    list: list<youtube_v3.Schema$CommentThreadListResponse>("commentThreads"),
+  },
+};
 
 // ========================================
 // EXISTING TOOLS (ENHANCED)
@@ -37,7 +58,7 @@ export const getSearchDemandTool = new DynamicStructuredTool({
     idea: z.string().describe("The video idea or topic"),
     niche: z.string().describe("Target niche or audience"),
   }),
-  func: async ({ idea, niche }): Promise<SearchDemandResult> => {
+  func: async ({ idea, niche }, _runManager, config): Promise<SearchDemandResult> => {
     console.log(`🔍 Tool: getSearchDemand("${idea}", "${niche}")`);
 
     try {
@@ -47,7 +68,7 @@ export const getSearchDemandTool = new DynamicStructuredTool({
         type: ["video"],
         maxResults: 50,
         order: "relevance",
-      });
+      }, { signal: config?.signal });
 
       const totalVideos = searchResponse.data.pageInfo?.totalResults || 0;
       const score = Math.min(
@@ -68,6 +89,7 @@ export const getSearchDemandTool = new DynamicStructuredTool({
 
       return { score, reason, totalVideos };
     } catch (error) {
+      if (config?.signal?.aborted) throw error;
       console.error("YouTube API error:", error);
       return {
         score: 5,
@@ -85,7 +107,7 @@ export const checkCompetitionTool = new DynamicStructuredTool({
   schema: z.object({
     topic: z.string().describe("Topic to analyze"),
   }),
-  func: async ({ topic }): Promise<CompetitionResult> => {
+  func: async ({ topic }, _runManager, config): Promise<CompetitionResult> => {
     console.log(`🔍 Tool: checkCompetition("${topic}")`);
 
     try {
@@ -95,7 +117,7 @@ export const checkCompetitionTool = new DynamicStructuredTool({
         type: ["video"],
         maxResults: 50,
         order: "relevance",
-      });
+      }, { signal: config?.signal });
 
       const videosFound = searchResponse.data.pageInfo?.totalResults || 0;
       const level: "Low" | "Med" | "High" =
@@ -113,7 +135,7 @@ export const checkCompetitionTool = new DynamicStructuredTool({
       const channelsResponse = await youtube.channels.list({
         part: ["statistics", "snippet"],
         id: channelIds, // Pass array directly, not joined string
-      });
+      }, { signal: config?.signal });
 
       const topChannels =
         channelsResponse.data.items?.map((ch) => ({
@@ -127,6 +149,7 @@ export const checkCompetitionTool = new DynamicStructuredTool({
 
       return { videosFound, level, topChannels };
     } catch (error) {
+      if (config?.signal?.aborted) throw error;
       console.error("YouTube API error:", error);
       return { videosFound: 0, level: "Med", topChannels: [] };
     }
@@ -141,7 +164,7 @@ export const getAudienceRelatabilityTool = new DynamicStructuredTool({
     idea: z.string().describe("Video idea"),
     audience: z.string().describe("Target audience"),
   }),
-  func: async ({ idea, audience }): Promise<AudienceRelatabilityResult> => {
+  func: async ({ idea, audience }, _runManager, config): Promise<AudienceRelatabilityResult> => {
     console.log(`🔍 Tool: getAudienceRelatability("${idea}", "${audience}")`);
 
     try {
@@ -152,7 +175,7 @@ export const getAudienceRelatabilityTool = new DynamicStructuredTool({
         type: ["video"],
         maxResults: 20,
         order: "relevance",
-      });
+      }, { signal: config?.signal });
 
       const videos = searchResponse.data.items || [];
       const videoIds = videos
@@ -163,7 +186,7 @@ export const getAudienceRelatabilityTool = new DynamicStructuredTool({
       const statsResponse = await youtube.videos.list({
         part: ["statistics"],
         id: videoIds, // Pass array directly
-      });
+      }, { signal: config?.signal });
 
       let totalEngagement = 0;
       let totalViews = 0;
@@ -196,7 +219,7 @@ export const getAudienceRelatabilityTool = new DynamicStructuredTool({
             videoId: firstVideoId,
             maxResults: 10,
             order: "relevance",
-          });
+          }, { signal: config?.signal });
 
           topComments =
             commentsResponse.data.items?.map(
@@ -214,6 +237,7 @@ export const getAudienceRelatabilityTool = new DynamicStructuredTool({
 
       return { relatabilityScore, avgEngagementRate, topComments };
     } catch (error) {
+      if (config?.signal?.aborted) throw error;
       console.error("YouTube API error:", error);
       return { relatabilityScore: 5, avgEngagementRate: 0, topComments: [] };
     }
@@ -227,7 +251,7 @@ export const getTrendingSignalsTool = new DynamicStructuredTool({
   schema: z.object({
     topic: z.string().describe("Topic to check"),
   }),
-  func: async ({ topic }): Promise<TrendingSignalsResult> => {
+  func: async ({ topic }, _runManager, config): Promise<TrendingSignalsResult> => {
     console.log(`🔍 Tool: getTrendingSignals("${topic}")`);
 
     try {
@@ -241,7 +265,7 @@ export const getTrendingSignalsTool = new DynamicStructuredTool({
         maxResults: 50,
         order: "date",
         publishedAfter: oneMonthAgo.toISOString(),
-      });
+      }, { signal: config?.signal });
 
       const recentVideos = searchResponse.data.items || [];
       const videoIds = recentVideos
@@ -251,7 +275,7 @@ export const getTrendingSignalsTool = new DynamicStructuredTool({
       const statsResponse = await youtube.videos.list({
         part: ["statistics"],
         id: videoIds, // Pass array directly
-      });
+      }, { signal: config?.signal });
 
       const totalViews =
         statsResponse.data.items?.reduce(
@@ -291,6 +315,7 @@ export const getTrendingSignalsTool = new DynamicStructuredTool({
 
       return { trendScore, keywords, recentVideoCount, avgViewsRecent };
     } catch (error) {
+      if (config?.signal?.aborted) throw error;
       console.error("YouTube API error:", error);
       return {
         trendScore: 5,
@@ -311,7 +336,7 @@ export const findReferenceVideoTool = new DynamicStructuredTool({
     audience: z.string().describe("Target audience"),
     goal: z.string().describe("Creator's goal"),
   }),
-  func: async ({ topic, audience, goal }): Promise<ReferenceVideoResult> => {
+  func: async ({ topic, audience, goal }, _runManager, config): Promise<ReferenceVideoResult> => {
     console.log(
       `🔍 Tool: findReferenceVideo("${topic}", "${audience}", "${goal}")`,
     );
@@ -329,7 +354,7 @@ export const findReferenceVideoTool = new DynamicStructuredTool({
         type: ["video"],
         maxResults: 10,
         order: orderBy,
-      });
+      }, { signal: config?.signal });
 
       const videos = searchResponse.data.items || [];
       if (videos.length === 0) {
@@ -343,7 +368,7 @@ export const findReferenceVideoTool = new DynamicStructuredTool({
       const statsResponse = await youtube.videos.list({
         part: ["statistics", "snippet"],
         id: [videoId], // Pass as array
-      });
+      }, { signal: config?.signal });
 
       const videoData = statsResponse.data.items?.[0];
       const views = videoData?.statistics?.viewCount || "0";
@@ -362,6 +387,7 @@ export const findReferenceVideoTool = new DynamicStructuredTool({
 
       return result;
     } catch (error) {
+      if (config?.signal?.aborted) throw error;
       console.error("YouTube API error:", error);
       return {
         title: `${topic} - Example Video`,
@@ -384,7 +410,7 @@ export const searchGoogleTrendsTool = new DynamicStructuredTool({
   schema: z.object({
     keyword: z.string().describe("Keyword to analyze trends for"),
   }),
-  func: async ({ keyword }): Promise<GoogleTrendsResult> => {
+  func: async ({ keyword }, _runManager, config): Promise<GoogleTrendsResult> => {
     console.log(`🔍 Tool: searchGoogleTrends("${keyword}")`);
     try {
       // Interest over time (last 12 months)
@@ -441,6 +467,7 @@ export const searchGoogleTrendsTool = new DynamicStructuredTool({
         regionalInterest,
       };
     } catch (error) {
+      if (config?.signal?.aborted) throw error;
       console.error("Google Trends API error:", error);
       return {
         interestOverTime: [],
@@ -459,7 +486,7 @@ export const scrapeTopChannelsTool = new DynamicStructuredTool({
   schema: z.object({
     niche: z.string().describe("Niche to analyze"),
   }),
-  func: async ({ niche }): Promise<ChannelAnalysisResult[]> => {
+  func: async ({ niche }, _runManager, config): Promise<ChannelAnalysisResult[]> => {
     console.log(`🔍 Tool: scrapeTopChannels("${niche}")`);
 
     try {
@@ -470,7 +497,7 @@ export const scrapeTopChannelsTool = new DynamicStructuredTool({
         type: ["channel"],
         maxResults: 10,
         order: "relevance",
-      });
+      }, { signal: config?.signal });
 
       const channels = searchResponse.data.items || [];
       const channelIds = channels
@@ -480,7 +507,7 @@ export const scrapeTopChannelsTool = new DynamicStructuredTool({
       const channelsResponse = await youtube.channels.list({
         part: ["statistics", "snippet", "contentDetails"],
         id: channelIds, // FIX: Pass array directly
-      });
+      }, { signal: config?.signal });
 
       const results: ChannelAnalysisResult[] = [];
 
@@ -498,7 +525,7 @@ export const scrapeTopChannelsTool = new DynamicStructuredTool({
             part: ["snippet"],
             playlistId: uploadsPlaylistId,
             maxResults: 10,
-          });
+          }, { signal: config?.signal });
 
           recentUploads = playlistResponse.data.items?.length || 0;
 
@@ -510,7 +537,7 @@ export const scrapeTopChannelsTool = new DynamicStructuredTool({
             const videosResponse = await youtube.videos.list({
               part: ["statistics"],
               id: videoIds, // FIX: Pass array directly
-            });
+            }, { signal: config?.signal });
 
             totalViews =
               videosResponse.data.items?.reduce(
@@ -539,6 +566,7 @@ export const scrapeTopChannelsTool = new DynamicStructuredTool({
 
       return results;
     } catch (error) {
+      if (config?.signal?.aborted) throw error;
       console.error("Channel scraping error:", error);
       return [];
     }
@@ -552,7 +580,7 @@ export const analyzeCommentsTool = new DynamicStructuredTool({
   schema: z.object({
     topic: z.string().describe("Topic to analyze comments for"),
   }),
-  func: async ({ topic }): Promise<CommentAnalysisResult> => {
+  func: async ({ topic }, _runManager, config): Promise<CommentAnalysisResult> => {
     console.log(`🔍 Tool: analyzeComments("${topic}")`);
 
     try {
@@ -563,7 +591,7 @@ export const analyzeCommentsTool = new DynamicStructuredTool({
         type: ["video"],
         maxResults: 5,
         order: "relevance",
-      });
+      }, { signal: config?.signal });
 
       const videoIds =
         (searchResponse.data.items
@@ -580,7 +608,7 @@ export const analyzeCommentsTool = new DynamicStructuredTool({
             videoId,
             maxResults: 20,
             order: "relevance",
-          });
+          }, { signal: config?.signal });
 
           const comments =
             commentsResponse.data.items?.map(
@@ -679,6 +707,7 @@ export const analyzeCommentsTool = new DynamicStructuredTool({
         topKeywords,
       };
     } catch (error) {
+      if (config?.signal?.aborted) throw error;
       console.error("Comment analysis error:", error);
       return {
         topPainPoints: [],
@@ -697,7 +726,7 @@ export const fetchVideoTranscriptTool = new DynamicStructuredTool({
   schema: z.object({
     topic: z.string().describe("Topic to find videos for"),
   }),
-  func: async ({ topic }): Promise<TranscriptAnalysisResult> => {
+  func: async ({ topic }, _runManager, config): Promise<TranscriptAnalysisResult> => {
     console.log(`🔍 Tool: fetchVideoTranscript("${topic}")`);
 
     try {
@@ -708,7 +737,7 @@ export const fetchVideoTranscriptTool = new DynamicStructuredTool({
         type: ["video"],
         maxResults: 1,
         order: "relevance",
-      });
+      }, { signal: config?.signal });
 
       const video = searchResponse.data.items?.[0];
       if (!video) {
@@ -722,7 +751,7 @@ export const fetchVideoTranscriptTool = new DynamicStructuredTool({
       const videoResponse = await youtube.videos.list({
         part: ["contentDetails", "snippet"],
         id: [videoId], // FIX: Pass as array
-      });
+      }, { signal: config?.signal });
 
       const duration =
         videoResponse.data.items?.[0]?.contentDetails?.duration || "PT0S";
@@ -783,6 +812,7 @@ export const fetchVideoTranscriptTool = new DynamicStructuredTool({
         averageLength,
       };
     } catch (error) {
+      if (config?.signal?.aborted) throw error;
       console.error("Transcript fetch error:", error);
       return {
         videoTitle: topic,
@@ -798,15 +828,21 @@ export const fetchVideoTranscriptTool = new DynamicStructuredTool({
 export const estimateMetricsTool = new DynamicStructuredTool({
   name: "estimateMetrics",
   description:
-    "Estimates CTR, retention, and virality potential based on engagement data.",
+    "Estimates CTR, retention, virality potential and revenue per video based on engagement data.",
   schema: z.object({
     topic: z.string().describe("Topic to estimate metrics for"),
     competitionLevel: z.string().describe("Competition level (Low/Med/High)"),
+    region: z
+      .string()
+      .regex(/^[A-Za-z]{2}$/, "Region must be a 2-letter ISO country code")
+      .optional()
+      .describe("Main audience country as an ISO 3166-1 alpha-2 code, if known"),
   }),
   func: async ({
     topic,
     competitionLevel,
-  }): Promise<EstimatedMetricsResult> => {
+    region,
+  }, _runManager, config): Promise<EstimatedMetricsResult> => {
     console.log(`🔍 Tool: estimateMetrics("${topic}", "${competitionLevel}")`);
 
     try {
@@ -817,16 +853,16 @@ export const estimateMetricsTool = new DynamicStructuredTool({
         type: ["video"],
         maxResults: 20,
         order: "relevance",
-      });
+      }, { signal: config?.signal });
 
       const videoIds = searchResponse.data.items
         ?.map((v) => v.id?.videoId)
         .filter(Boolean) as string[];
 
       const statsResponse = await youtube.videos.list({
-        part: ["statistics"],
+        part: ["statistics", "snippet", "contentDetails"],
         id: videoIds, // FIX: Pass array directly
-      });
+      }, { signal: config?.signal });
 
       // Calculate engagement metrics
       let totalEngagement = 0;
@@ -883,6 +919,15 @@ export const estimateMetricsTool = new DynamicStructuredTool({
         ),
       );
 
+      // Revenue per video, priced like the topic tools
+      const revenue = monetizationModel.estimate({
+        views: videoCount > 0 ? totalViews / videoCount : 0,
+        ...(await monetizationModel.profileFromVideos(
+          statsResponse.data.items || [],
+          region,
+        )),
+      });
+
       console.log(
         `✅ Estimated CTR: ${estimatedCTR.toFixed(1)}%, Retention: ${estimatedRetention.toFixed(1)}%`,
       );
@@ -892,14 +937,17 @@ export const estimateMetricsTool = new DynamicStructuredTool({
         estimatedRetention,
         viralityScore,
         algorithmScore,
+        revenue,
       };
     } catch (error) {
+      if (config?.signal?.aborted) throw error;
       console.error("Metrics estimation error:", error);
       return {
         estimatedCTR: 4.0,
         estimatedRetention: 50.0,
         viralityScore: 5,
         algorithmScore: 5,
+        revenue: null,
       };
     }
   },
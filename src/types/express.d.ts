@@ -0,0 +1,19 @@
+// src/types/express.d.ts
+import type { PlanName } from "../config/plans";
+
+/**
+ * Authenticated account attached to the request by the auth middleware
+ */
+export interface AuthUser {
+  id: string;
+  email: string;
+  plan: PlanName;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
@@ -16,7 +16,8 @@ export type AnalysisStage =
   | "analyzing_wantmore"
   | "summarizing"
   | "completed"
-  | "failed";
+  | "failed"
+  | "cancelled";
 
 /**
  * Stages for video idea validation workflow
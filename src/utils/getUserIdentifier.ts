@@ -9,10 +9,9 @@ import crypto from "crypto";
  */
 export const getUserIdentifier = (req: Request): string => {
   // If user is authenticated, use their user ID
-  // Uncomment this when you have authentication
-  // if (req.user?.id) {
-  //   return `user:${req.user.id}`;
-  // }
+  if (req.user?.id) {
+    return `user:${req.user.id}`;
+  }
 
   // For anonymous users, combine IP and User Agent for uniqueness
   const ip = getClientIp(req);
@@ -1,22 +1,3 @@
-export type CpmEstimate = {
-  low: number;
-  high: number;
-  label: string;
-};
-
-export const getCpmEstimate = (categoryId: string):CpmEstimate => {
-  const cpmMap: Record<string, CpmEstimate> = {
-    '20': { low: 3, high: 9, label: 'Gaming' },
-    '27': { low: 2, high: 6, label: 'Education' },
-    '24': { low: 1, high: 4, label: 'Entertainment' },
-    '28': { low: 8, high: 20, label: 'Tech/Science' },
-    '22': { low: 2, high: 5, label: 'People & Blogs' },
-    'default': { low: 2, high: 5, label: 'General' }
-  };
-  const estimate = cpmMap[categoryId];
-  return estimate ?? cpmMap['default']!;
-};
-
 // Convert YouTube duration (PT15M33S) to minutes
 export const parseDurationToMinutes = (duration: string): number => {
   const match = duration.match(/PT(\d+H)?(\d+M)?(\d+S)?/);
@@ -47,4 +28,22 @@ export const extractCommonWords = (titles: string[], excludeWord: string): strin
     .sort((a, b) => b[1] - a[1])
     .slice(0, 5)
     .map(x => x[0]);
-};
\ No newline at end of file
+};
+// Value at percentile p (0-100) of an ascending list, interpolating between ranks
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (rank - lower);
+};
+
+// True for IANA zone names Intl understands ('UTC', 'America/New_York')
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -43,7 +43,10 @@ export interface AdvancedTopicAnalysis {
   monetizationPotential: {
     estimatedRevenuePerVideo: string;
     cpmRate: string;
+    rpmRate: string; // Long-form creator earnings per 1,000 views
+    shortsRpmRate: string;
     monthlyPotential: string;
+    assumptions: string[];
   };
   optimalVideoLength: {
     avgLength: string;
@@ -68,6 +71,9 @@ export interface AdvancedTopicAnalysis {
     reasoning: string;
     timing: string;
   };
+  postingSchedule: PostingSchedule;
+  contentGaps: ContentGap[];
+  titleFormats: TitleFormatStats[];
   relatedTopics: string[];
   youtubeData: {
     videoCount: number;
@@ -95,6 +101,10 @@ export interface AdvancedSearchTopic {
     day: string;
     time: string;
     reason: string;
+    window?: string; // e.g. "14:00-17:00", when backed by publish data
+    timeZone?: string;
+    sampleSize?: number;
+    confidence?: ScheduleConfidence;
   };
   warning?: string;
 }
@@ -115,14 +125,36 @@ export interface AdvancedSuggestions {
 
 // ✨ NEW INTERFACES FOR ADVANCED FILTERING
 
+// Inclusive bounds; either side may be left open
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
 export interface AdvancedVideoFilters {
-  sort?: 'latest' | 'bestMatch' | 'mostViews' | 'topRated'; // Frontend sort options
+  sort?: 'latest' | 'bestMatch' | 'mostViews' | 'topRated' | 'trending'; // Frontend sort options
   contentType?: 'longForm' | 'shorts' | 'all'; // Frontend content type
-  viralScore?: number | undefined; // 0-1000 (frontend shows 200%)
-  minViews?: number | undefined; // Frontend shows "10K+"
+  outlierScore?: NumberRange; // 0-1000 (frontend shows 200%)
+  views?: NumberRange; // Frontend shows "10K+"
+  subscribers?: NumberRange;
+  viewsPerHour?: NumberRange;
+  videoLength?: NumberRange; // Minutes
+  viewToSubRatio?: NumberRange;
+  publishedAfter?: string; // RFC 3339, passed to YouTube search
+  publishedBefore?: string; // RFC 3339, passed to YouTube search
+  regionCode?: string; // ISO 3166-1 alpha-2, passed to YouTube search
+  relevanceLanguage?: string; // ISO 639-1, passed to YouTube search
   maxResults?: 20 | 50 | 100;
 }
 
+export type RangeFilterField =
+  | 'outlierScore'
+  | 'views'
+  | 'subscribers'
+  | 'viewsPerHour'
+  | 'videoLength'
+  | 'viewToSubRatio';
+
 export interface EnrichedVideoData {
   id: string;
   videoUrl: string; // ✅ Added video link
@@ -138,15 +170,61 @@ export interface EnrichedVideoData {
   duration: number;
   durationMins: number;
   isShort: boolean;
+  shortsSignal: ShortsSignal; // What decided isShort
   subscribers: number;
-  viewsPerHour: number;
+  subscribersEstimated: boolean; // Channel hides its count; subscribers and viewToSubRatio are estimates
+  viewsPerHour: number; // Lifetime average
+  viewVelocity: number | null; // Views per hour over the last day of stat snapshots (null until there are two)
+  viewAcceleration: number | null; // Change in viewVelocity per hour (positive = speeding up)
+  trendingMetric: 'viewVelocity' | 'viewsPerHour'; // Rate the trending sort ranks by; measured videos rank first
   engagementRate: number;
   viewToSubRatio: number;
-  outlierScore: number; // Viral score
+  outlierScore: number; // Views vs. the channel's median views (200 = 2x its normal)
+  channelMedianViews: number | null; // Baseline used for outlierScore (null = generic fallback)
   freshnessScore: number;
+  viewsPerHourPercentile: number; // 0-100 among videos of the same format (Shorts or long-form)
   tags: string[];
 }
 
+// How a video was classified as a Short (or not)
+export type ShortsSignal = 'duration' | 'hashtag' | 'resolver' | 'fallback';
+
+export interface PercentileSet {
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface FormatBenchmark {
+  sampleSize: number;
+  views: PercentileSet;
+  viewsPerHour: PercentileSet;
+  engagementRate: PercentileSet;
+}
+
+// Shorts and long-form videos perform on different scales, so each is
+// benchmarked only against its own format
+export interface FormatBenchmarks {
+  shorts: FormatBenchmark;
+  longForm: FormatBenchmark;
+}
+
+// Where a search stopped, so the next page continues without repeating calls
+export interface AdvancedSearchCursor {
+  query: string;
+  filters: AdvancedVideoFilters;
+  pageToken?: string; // YouTube nextPageToken (unset once results run out)
+  pending: string[]; // Matching video IDs fetched but not returned yet
+  seen: string[]; // Video IDs already returned on earlier pages
+}
+
+export interface AdvancedVideoSearchPage {
+  videos: EnrichedVideoData[];
+  next: AdvancedSearchCursor | null; // null on the last page
+  benchmarks: FormatBenchmarks; // From every video fetched for this page
+}
+
 export interface AdvancedVideoSearchResponse {
   success: boolean;
   count: number;
@@ -165,6 +243,121 @@ export interface AdvancedVideoSearchResponse {
   data: EnrichedVideoData[];
 }
 
+// ✨ CHANNEL REPORTS
+
+export interface ChannelReportVideo {
+  id: string;
+  title: string;
+  videoUrl: string;
+  publishedAt: string;
+  views: number;
+  engagementRate: number;
+  durationMins: number;
+  isShort: boolean;
+}
+
+export interface ChannelReport {
+  channel: {
+    id: string;
+    title: string;
+    handle: string | null;
+    channelUrl: string;
+    thumbnail: string;
+    subscribers: number | null; // null when the channel hides its count
+    totalViews: number;
+    videoCount: number;
+    createdAt: string | null;
+  };
+  sampleSize: number; // Recent uploads the report is based on
+  uploadCadence: {
+    uploadsPerWeek: number;
+    medianDaysBetweenUploads: number | null;
+    lastUploadAt: string | null;
+    daysSinceLastUpload: number | null;
+  };
+  medianViews: number;
+  bestVideos: ChannelReportVideo[];
+  worstVideos: ChannelReportVideo[];
+  typicalLength: {
+    medianMins: number;
+    longFormMedianMins: number | null;
+  };
+  formatMix: {
+    shorts: number;
+    longForm: number;
+    shortsShare: number; // Percent of recent uploads
+    shortsMedianViews: number | null;
+    longFormMedianViews: number | null;
+  };
+  engagementTrend: {
+    direction: 'rising' | 'stable' | 'declining';
+    changePercent: number; // Newer half vs. older half of the sample
+    points: Array<{ publishedAt: string; engagementRate: number }>; // Oldest first
+  };
+  generatedAt: string;
+}
+
+// ✨ POSTING SCHEDULES
+
+export type ScheduleConfidence = 'low' | 'medium' | 'high';
+
+// Scores are relative to the niche: 100 = its typical video
+export interface PostingBucketStats {
+  score: number; // Blend of both indexes, pulled towards 100 for small buckets
+  earlyVelocityIndex: number | null; // Views/hour of videos in their first days
+  finalViewsIndex: number | null; // Views of videos old enough to have settled
+  sampleSize: number;
+  confidence: ScheduleConfidence;
+}
+
+export interface PostingSlot extends PostingBucketStats {
+  day: string; // Weekday in the requested time zone
+  time: string; // Window start, "HH:00"
+  window: string; // "14:00-17:00"
+}
+
+export interface PostingDay extends PostingBucketStats {
+  day: string;
+}
+
+export interface PostingSchedule {
+  timeZone: string;
+  sampleSize: number; // Videos that fed either index
+  earlySampleSize: number;
+  settledSampleSize: number;
+  confidence: ScheduleConfidence;
+  slots: PostingSlot[]; // Best first; only windows with published videos
+  days: PostingDay[]; // Best first
+}
+
+// ✨ MONETIZATION
+
+// USD amounts; rates are per 1,000
+export interface RateRange {
+  low: number;
+  high: number;
+}
+
+export interface MonetizationRates {
+  format: 'longForm' | 'shorts';
+  categoryId: string; // 'default' when the category isn't in the table
+  categoryLabel: string;
+  region: string; // ISO 3166-1 alpha-2, or 'GLOBAL'
+  regionLabel: string;
+  regionMultiplier: number; // Relative to US rates
+  cpm: RateRange | null; // Advertiser price per 1,000 ad impressions; null for Shorts
+  rpm: RateRange; // Creator earnings per 1,000 views
+}
+
+export interface RevenueEstimate {
+  revenue: RateRange; // For `views`
+  views: number;
+  shortsShare: number; // Percent of `views` from Shorts
+  longForm: MonetizationRates;
+  shorts: MonetizationRates;
+  assumptions: string[];
+}
+
 export interface ContentGap {
   format: string;
   reason: string;
@@ -173,6 +366,15 @@ export interface ContentGap {
   competitionLevel: string;
 }
 
+// How one title format performs among a keyword's top videos
+export interface TitleFormatStats {
+  format: string;
+  videos: number;
+  share: number; // Percent of the videos using this format
+  medianViews: number;
+  viewsIndex: number | null; // Median views vs. the keyword's median, 100 = typical
+}
+
 export interface TitleAnalysis {
   hasTutorial: boolean;
   hasComparison: boolean;
@@ -0,0 +1,55 @@
+// utils/jobCancellation.ts
+import { redisClient } from "../config/rt-redis";
+
+// Flags live in Redis so any API instance can cancel a job running on any worker
+const CANCEL_FLAG_TTL_SECONDS = 24 * 60 * 60;
+
+const cancelKey = (jobId: string) => `cancel:job:${jobId}`;
+
+/**
+ * Thrown by long-running workflows when their job has been cancelled
+ */
+export class JobCancelledError extends Error {
+  constructor(public jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = "JobCancelledError";
+  }
+}
+
+/**
+ * Flag a job as cancelled
+ * Returns false if cancellation had already been requested
+ */
+export const requestCancellation = async (jobId: string): Promise<boolean> => {
+  const result = await redisClient.set(
+    cancelKey(jobId),
+    "1",
+    "EX",
+    CANCEL_FLAG_TTL_SECONDS,
+    "NX",
+  );
+  return result === "OK";
+};
+
+/**
+ * Check whether cancellation was requested (fails open on Redis errors)
+ */
+export const isCancellationRequested = async (
+  jobId: string,
+): Promise<boolean> => {
+  try {
+    return (await redisClient.exists(cancelKey(jobId))) === 1;
+  } catch (error) {
+    console.error("Cancellation check error:", error);
+    return false;
+  }
+};
+
+/**
+ * Throw a JobCancelledError if the job has been cancelled
+ */
+export const throwIfCancelled = async (jobId?: string): Promise<void> => {
+  if (jobId && (await isCancellationRequested(jobId))) {
+    throw new JobCancelledError(jobId);
+  }
+};
@@ -0,0 +1,165 @@
+// utils/jobEvents.ts
+import { redisClient } from "../config/rt-redis";
+import { StreamWriter } from "./streamWriter";
+
+// Events are kept long enough for a client to come back to a finished run
+const EVENTS_TTL_SECONDS = 24 * 60 * 60;
+
+// Cap per run; a validation emits well under a hundred events
+const EVENTS_MAX_LENGTH = 1000;
+
+// Time a queued run waits for its submitter's first read before it counts
+// as abandoned and gets aborted
+const FOLLOWER_GRACE_SECONDS = parseInt(
+  process.env.VALIDATION_ABANDON_GRACE_SECONDS || "60",
+  10,
+);
+
+// Once reading, a follower counts until its heartbeats stop for this long
+const FOLLOWER_TTL_SECONDS = 15;
+
+// When a follower disconnects, others have this long to heartbeat
+// before the run counts as abandoned
+const FOLLOWER_RELEASE_SECONDS = 5;
+
+export const jobEventsKey = (jobId: string) => `events:job:${jobId}`;
+
+const followerKey = (jobId: string) => `events:followers:${jobId}`;
+
+export interface JobEvent {
+  id: string; // Redis stream entry ID, usable as a replay cursor
+  [key: string]: any;
+}
+
+/**
+ * StreamWriter that records every event to a Redis stream keyed by jobId,
+ * so the run can be followed (and replayed) by any HTTP request
+ */
+export class JobEventWriter extends StreamWriter {
+  private jobId: string;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(jobId: string) {
+    super();
+    this.jobId = jobId;
+  }
+
+  protected send(data: any): boolean {
+    const key = jobEventsKey(this.jobId);
+
+    // Chain writes so events land in the order they were emitted
+    this.pending = this.pending
+      .then(() =>
+        redisClient
+          .multi()
+          .xadd(key, "MAXLEN", "~", EVENTS_MAX_LENGTH, "*", "event", JSON.stringify(data))
+          .expire(key, EVENTS_TTL_SECONDS)
+          .exec(),
+      )
+      .catch((error) => {
+        console.error(`❌ Failed to record event for job ${this.jobId}:`, error);
+      });
+
+    return true;
+  }
+
+  /**
+   * Wait until every event has been written
+   */
+  async flush(): Promise<void> {
+    await this.pending;
+  }
+}
+
+/**
+ * Read the events recorded after a cursor ("0" reads from the start)
+ */
+export const readJobEvents = async (
+  jobId: string,
+  cursor: string = "0",
+  count: number = 100,
+): Promise<JobEvent[]> => {
+  const result = await redisClient.xread(
+    "COUNT",
+    count,
+    "STREAMS",
+    jobEventsKey(jobId),
+    cursor,
+  );
+
+  if (!result) return [];
+
+  const [, entries] = result[0]!;
+  return entries.map(([id, fields]) => {
+    // fields is a flat [name, value, ...] list; we only write "event"
+    const raw = fields[fields.indexOf("event") + 1] || "{}";
+    return { id, ...JSON.parse(raw) };
+  });
+};
+
+/**
+ * Validate a replay cursor (a Redis stream entry ID)
+ */
+export const isValidEventCursor = (cursor: string): boolean =>
+  /^\d+(-\d+)?$/.test(cursor);
+
+/**
+ * Count the submitter as a follower until they start reading events
+ */
+export const markQueued = async (jobId: string): Promise<void> => {
+  await redisClient.set(followerKey(jobId), "1", "EX", FOLLOWER_GRACE_SECONDS);
+};
+
+/**
+ * Heartbeat from a client following a run
+ */
+export const markFollowed = async (jobId: string): Promise<void> => {
+  try {
+    await redisClient.set(followerKey(jobId), "1", "EX", FOLLOWER_TTL_SECONDS);
+  } catch (error) {
+    console.error("Follower heartbeat error:", error);
+  }
+};
+
+/**
+ * A follower disconnected: unless another one heartbeats soon,
+ * the run is aborted
+ */
+export const releaseFollower = async (jobId: string): Promise<void> => {
+  try {
+    await redisClient.expire(followerKey(jobId), FOLLOWER_RELEASE_SECONDS);
+  } catch (error) {
+    console.error("Follower release error:", error);
+  }
+};
+
+/**
+ * Check whether any client followed the run recently (fails open on Redis errors)
+ */
+export const isFollowed = async (jobId: string): Promise<boolean> => {
+  try {
+    return (await redisClient.exists(followerKey(jobId))) === 1;
+  } catch (error) {
+    console.error("Follower check error:", error);
+    return true;
+  }
+};
+
+/**
+ * Abort the controller once no client is following the run
+ * Returns a function that stops watching
+ */
+export const abortWhenAbandoned = (
+  jobId: string,
+  controller: AbortController,
+  intervalMs: number = 5000,
+): (() => void) => {
+  const timer = setInterval(async () => {
+    if (controller.signal.aborted) return;
+    if (!(await isFollowed(jobId))) {
+      controller.abort(new Error("Validation abandoned: no client is following it"));
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+};
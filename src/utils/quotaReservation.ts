@@ -0,0 +1,95 @@
+// utils/quotaReservation.ts
+import { v4 as uuidv4 } from "uuid";
+import { redisClient } from "../config/rt-redis";
+
+/**
+ * A feature use held against a user's quota.
+ * The slot is counted as soon as it is reserved; releasing gives it back,
+ * committing makes it permanent. Both are idempotent, so any process
+ * (API or worker) can settle a reservation by its ID.
+ */
+export interface QuotaReservation {
+  id: string;
+  featureName: string;
+  userId: string;
+}
+
+export const usageKey = (featureName: string, userId: string) =>
+  `ratelimit:${featureName}:${userId}`;
+
+const reservationKey = (reservationId: string) =>
+  `ratelimit:reservation:${reservationId}`;
+
+/**
+ * Hold one use of a feature and return the new usage count
+ */
+export const reserveQuota = async (
+  featureName: string,
+  userId: string,
+  windowMs: number,
+): Promise<{ reservation: QuotaReservation; count: number }> => {
+  const key = usageKey(featureName, userId);
+  const windowSeconds = Math.floor(windowMs / 1000);
+
+  const count = await redisClient.incr(key);
+
+  // Set expiry only on first request
+  if (count === 1) {
+    await redisClient.expire(key, windowSeconds);
+  }
+
+  const reservation: QuotaReservation = { id: uuidv4(), featureName, userId };
+  await redisClient.set(
+    reservationKey(reservation.id),
+    JSON.stringify(reservation),
+    "EX",
+    windowSeconds,
+  );
+
+  return { reservation, count };
+};
+
+/**
+ * Make a held use permanent
+ */
+export const commitQuota = async (reservationId?: string): Promise<void> => {
+  if (!reservationId) return;
+
+  try {
+    await redisClient.del(reservationKey(reservationId));
+  } catch (error) {
+    console.error("Quota commit error:", error);
+  }
+};
+
+/**
+ * Give a held use back to the user
+ * Returns true if the slot was released by this call
+ */
+export const releaseQuota = async (reservationId?: string): Promise<boolean> => {
+  if (!reservationId) return false;
+
+  try {
+    const key = reservationKey(reservationId);
+    const raw = await redisClient.get(key);
+
+    // Already committed, released or expired
+    if (!raw || (await redisClient.del(key)) === 0) return false;
+
+    const reservation: QuotaReservation = JSON.parse(raw);
+    const usage = usageKey(reservation.featureName, reservation.userId);
+
+    const newCount = await redisClient.decr(usage);
+    if (newCount < 0) {
+      await redisClient.set(usage, 0, "KEEPTTL");
+    }
+
+    console.log(
+      `↩️ Released ${reservation.featureName} slot for ${reservation.userId}`,
+    );
+    return true;
+  } catch (error) {
+    console.error("Quota release error:", error);
+    return false;
+  }
+};
@@ -0,0 +1,168 @@
+// utils/redisCache.ts
+import crypto from "crypto";
+import { redisClient } from "../config/rt-redis";
+
+interface RedisCacheOptions {
+  ttlMs: number;
+  maxEntries: number; // Oldest entries are evicted beyond this
+  maxEntryBytes?: number; // Larger values are not cached
+}
+
+export interface CacheStats {
+  namespace: string;
+  entries: number;
+  maxEntries: number;
+  ttlSeconds: number;
+}
+
+const DEFAULT_MAX_ENTRY_BYTES = 512 * 1024;
+
+// Every cache registers itself here so they can be listed and purged together
+const registry = new Map<string, RedisCache>();
+
+/**
+ * JSON cache in Redis shared by all instances
+ * Each namespace keeps a sorted-set index (score = write time) that bounds
+ * its size; values expire on their own after the TTL.
+ */
+export class RedisCache {
+  readonly namespace: string;
+  private ttlSeconds: number;
+  private maxEntries: number;
+  private maxEntryBytes: number;
+
+  constructor(namespace: string, options: RedisCacheOptions) {
+    this.namespace = namespace;
+    this.ttlSeconds = Math.floor(options.ttlMs / 1000);
+    this.maxEntries = options.maxEntries;
+    this.maxEntryBytes = options.maxEntryBytes ?? DEFAULT_MAX_ENTRY_BYTES;
+
+    registry.set(namespace, this);
+  }
+
+  private get indexKey() {
+    return `cache:${this.namespace}:index`;
+  }
+
+  // Keys are hashed exactly as given: many are case-sensitive YouTube IDs
+  private entryKey(key: string) {
+    const digest = crypto.createHash("sha1").update(key).digest("hex");
+    return `cache:${this.namespace}:${digest}`;
+  }
+
+  /**
+   * Read a value (returns null on miss or Redis errors)
+   */
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const raw = await redisClient.get(this.entryKey(key));
+      return raw ? (JSON.parse(raw) as T) : null;
+    } catch (error) {
+      console.error(`⚠️ Cache read failed (${this.namespace}):`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Write a value and evict the oldest entries beyond the size limit
+   */
+  async set(key: string, value: unknown): Promise<void> {
+    try {
+      const raw = JSON.stringify(value);
+      if (Buffer.byteLength(raw) > this.maxEntryBytes) {
+        console.warn(`⚠️ Skipping cache write (${this.namespace}): value too large`);
+        return;
+      }
+
+      const entryKey = this.entryKey(key);
+      const now = Date.now();
+
+      await redisClient
+        .multi()
+        .set(entryKey, raw, "EX", this.ttlSeconds)
+        .zadd(this.indexKey, now, entryKey)
+        // Forget entries that have already expired
+        .zremrangebyscore(this.indexKey, "-inf", now - this.ttlSeconds * 1000)
+        .exec();
+
+      const size = await redisClient.zcard(this.indexKey);
+      if (size > this.maxEntries) {
+        const evicted = await redisClient.zrange(
+          this.indexKey,
+          0,
+          size - this.maxEntries - 1,
+        );
+        if (evicted.length > 0) {
+          await redisClient
+            .multi()
+            .del(...evicted)
+            .zrem(this.indexKey, ...evicted)
+            .exec();
+        }
+      }
+    } catch (error) {
+      console.error(`⚠️ Cache write failed (${this.namespace}):`, error);
+    }
+  }
+
+  /**
+   * Return the cached value, or load, cache and return it
+   */
+  async getOrSet<T>(key: string, loader: () => Promise<T>): Promise<T> {
+    const cached = await this.get<T>(key);
+    if (cached !== null) {
+      console.log(`✅ Returning cached results (no API call)`);
+      return cached;
+    }
+
+    const value = await loader();
+    await this.set(key, value);
+    return value;
+  }
+
+  /**
+   * Remove every entry of this cache; returns how many were removed
+   */
+  async purge(): Promise<number> {
+    const keys = await redisClient.zrange(this.indexKey, 0, -1);
+    if (keys.length > 0) {
+      await redisClient.del(...keys);
+    }
+    await redisClient.del(this.indexKey);
+    return keys.length;
+  }
+
+  async stats(): Promise<CacheStats> {
+    await redisClient.zremrangebyscore(
+      this.indexKey,
+      "-inf",
+      Date.now() - this.ttlSeconds * 1000,
+    );
+
+    return {
+      namespace: this.namespace,
+      entries: await redisClient.zcard(this.indexKey),
+      maxEntries: this.maxEntries,
+      ttlSeconds: this.ttlSeconds,
+    };
+  }
+}
+
+/**
+ * Build a cache key from values; object keys are sorted so equal inputs match
+ */
+export const cacheKey = (...parts: unknown[]): string =>
+  JSON.stringify(parts, (_key, value) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.keys(value)
+            .sort()
+            .map((k) => [k, value[k]]),
+        )
+      : value,
+  );
+
+export const getCache = (namespace: string): RedisCache | undefined =>
+  registry.get(namespace);
+
+export const getAllCaches = (): RedisCache[] => Array.from(registry.values());
@@ -0,0 +1,53 @@
+// utils/searchCursor.ts
+import crypto from "crypto";
+import { config } from "dotenv";
+import type { AdvancedSearchCursor } from "./interfaces";
+
+config();
+
+// Cursors carry filter state back from the client, so they are signed to
+// stop anyone editing them into filters the request validation would reject
+const CURSOR_SECRET = process.env.CURSOR_SECRET || process.env.JWT_SECRET || "";
+
+const sign = (payload: string): string =>
+  crypto.createHmac("sha256", CURSOR_SECRET).update(payload).digest("base64url");
+
+/**
+ * Serialize a search cursor into an opaque, URL-safe token
+ */
+export const encodeSearchCursor = (cursor: AdvancedSearchCursor): string => {
+  const payload = Buffer.from(JSON.stringify(cursor)).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+};
+
+/**
+ * Read a token produced by encodeSearchCursor (null if malformed or tampered)
+ */
+export const decodeSearchCursor = (token: string): AdvancedSearchCursor | null => {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return null;
+  }
+
+  try {
+    const cursor = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    if (
+      typeof cursor?.query !== "string" ||
+      typeof cursor.filters !== "object" ||
+      !Array.isArray(cursor.pending) ||
+      !Array.isArray(cursor.seen)
+    ) {
+      return null;
+    }
+    return cursor as AdvancedSearchCursor;
+  } catch {
+    return null;
+  }
+};
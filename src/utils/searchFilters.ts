@@ -0,0 +1,142 @@
+// utils/searchFilters.ts
+import type {
+  AdvancedVideoFilters,
+  NumberRange,
+  RangeFilterField,
+} from './interfaces';
+
+// Raw filter values as sent by the client (query string or JSON body)
+export type SearchFilterParams = Record<string, unknown>;
+
+// Range filters are sent as min<Param>/max<Param> query params
+const RANGE_QUERY_PARAMS: Record<RangeFilterField, string> = {
+  outlierScore: 'OutlierScore',
+  views: 'Views',
+  subscribers: 'Subscribers',
+  viewsPerHour: 'ViewsPerHour',
+  videoLength: 'VideoLength', // minutes
+  viewToSubRatio: 'ViewToSubRatio',
+};
+
+// Returns the range, undefined if not set, or an error message
+function parseRange(
+  query: SearchFilterParams,
+  param: string,
+): NumberRange | undefined | string {
+  const range: NumberRange = {};
+
+  for (const bound of ['min', 'max'] as const) {
+    const raw = query[`${bound}${param}`];
+    if (raw === undefined || raw === '') continue;
+
+    const value = Number(raw);
+    if ((typeof raw !== 'string' && typeof raw !== 'number') || isNaN(value) || value < 0) {
+      return `${bound}${param} must be a non-negative number`;
+    }
+    range[bound] = value;
+  }
+
+  if (range.min !== undefined && range.max !== undefined && range.min > range.max) {
+    return `min${param} cannot be greater than max${param}`;
+  }
+
+  return range.min !== undefined || range.max !== undefined ? range : undefined;
+}
+
+// Returns an RFC 3339 timestamp, undefined if not set, or null if invalid
+function parseDate(raw: unknown): string | undefined | null {
+  if (raw === undefined || raw === '') return undefined;
+  if (typeof raw !== 'string') return null;
+
+  const date = new Date(raw);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Parse and validate advanced search filters from query params
+ * (search-advanced query strings, saved search filters)
+ * Returns the filters, or an error message if any are invalid
+ */
+export function parseSearchFilters(
+  params: SearchFilterParams,
+): AdvancedVideoFilters | string {
+  const {
+    sort,           // 'latest' | 'bestMatch' | 'mostViews' | 'topRated' | 'trending'
+    contentType,    // 'longForm' | 'shorts' | 'all'
+    viralScore,     // Number (e.g., 200 for 200%) - same as minOutlierScore
+    maxResults,
+    publishedAfter, // ISO date, e.g. 2025-01-01
+    publishedBefore,
+    regionCode,     // e.g. 'US'
+    relevanceLanguage, // e.g. 'en'
+  } = params;
+
+  // Validate sort
+  const validSorts = ['latest', 'bestMatch', 'mostViews', 'topRated', 'trending'];
+  const sortFilter = (sort && validSorts.includes(sort as string)) 
+    ? sort as string 
+    : 'bestMatch';
+
+  // Validate content type
+  const validTypes = ['all', 'shorts', 'longForm'];
+  const typeFilter = (contentType && validTypes.includes(contentType as string)) 
+    ? contentType as string 
+    : 'all';
+
+  // Parse range filters (minViews=10000 for "10K+", maxSubscribers=...)
+  const ranges: Partial<Record<RangeFilterField, NumberRange>> = {};
+  for (const [field, param] of Object.entries(RANGE_QUERY_PARAMS)) {
+    const range = parseRange(params, param);
+    if (typeof range === 'string') {
+      return range;
+    }
+    if (range) ranges[field as RangeFilterField] = range;
+  }
+
+  // Viral score (200% = 200) is shorthand for minOutlierScore
+  if (viralScore && ranges.outlierScore?.min === undefined) {
+    const parsed = Number(viralScore);
+    if (isNaN(parsed)) {
+      return 'viralScore must be a number';
+    }
+    ranges.outlierScore = { ...ranges.outlierScore, min: parsed };
+  }
+
+  // Parse date window
+  const publishedAfterFilter = parseDate(publishedAfter);
+  const publishedBeforeFilter = parseDate(publishedBefore);
+  if (publishedAfterFilter === null || publishedBeforeFilter === null) {
+    return 'publishedAfter and publishedBefore must be valid dates';
+  }
+
+  // Validate region and language
+  if (regionCode && !/^[A-Za-z]{2}$/.test(regionCode as string)) {
+    return 'regionCode must be a two-letter country code';
+  }
+  if (
+    relevanceLanguage &&
+    !/^[A-Za-z]{2,3}(-[A-Za-z]+)?$/.test(relevanceLanguage as string)
+  ) {
+    return 'relevanceLanguage must be a language code (e.g. en)';
+  }
+
+  // Validate maxResults
+  let maxResultsFilter: 20 | 50 | 100 = 20;
+  if (maxResults) {
+    const parsed = parseInt(maxResults as string);
+    if ([20, 50, 100].includes(parsed)) {
+      maxResultsFilter = parsed as 20 | 50 | 100;
+    }
+  }
+
+  return {
+    sort: sortFilter as any,
+    contentType: typeFilter as any,
+    ...ranges,
+    publishedAfter: publishedAfterFilter,
+    publishedBefore: publishedBeforeFilter,
+    regionCode: regionCode ? (regionCode as string).toUpperCase() : undefined,
+    relevanceLanguage: relevanceLanguage as string | undefined,
+    maxResults: maxResultsFilter
+  };
+}
@@ -2,10 +2,12 @@
 import type { Response } from 'express';
 
 export class StreamWriter {
-  private res: Response;
-  private isClosed: boolean = false;
+  private res?: Response;
+  protected isClosed: boolean = false;
 
-  constructor(res: Response) {
+  // Without a response, subclasses decide where events go (see utils/jobEvents.ts)
+  constructor(res?: Response) {
+    if (!res) return;
     this.res = res;
     
     // Set headers for streaming
@@ -17,6 +19,11 @@ export class StreamWriter {
     
     // Flush headers immediately
     this.res.flushHeaders();
+
+    // Client disconnected: stop writing instead of warning on every event
+    this.res.on('close', () => {
+      this.isClosed = true;
+    });
   }
 
   /**
@@ -29,15 +36,24 @@ export class StreamWriter {
     }
     
     try {
-      // Send as newline-delimited JSON (NDJSON)
-      const jsonString = JSON.stringify(data) + '\n';
-      return this.res.write(jsonString);
+      return this.send(data);
     } catch (error) {
       console.error('❌ Error writing to stream:', error);
       return false;
     }
   }
 
+  /**
+   * Deliver one event
+   */
+  protected send(data: any): boolean {
+    if (!this.res) return false;
+
+    // Send as newline-delimited JSON (NDJSON)
+    const jsonString = JSON.stringify(data) + '\n';
+    return this.res.write(jsonString);
+  }
+
   /**
    * Send a log message
    */
@@ -100,6 +116,6 @@ export class StreamWriter {
     if (this.isClosed) return;
     console.log('🔚 Closing stream');
     this.isClosed = true;
-    this.res.end();
+    this.res?.end();
   }
 }
\ No newline at end of file
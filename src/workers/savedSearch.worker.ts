@@ -0,0 +1,39 @@
+// src/workers/savedSearch.worker.ts
+import { Worker } from 'bullmq';
+import { redisConnection } from '../config/redis';
+import { savedSearchQueue } from '../config/queue';
+import { savedSearchService } from '../services/saved-search.service';
+
+// Every morning by default (cron, UTC), after the channel snapshots
+const SAVED_SEARCH_SCHEDULE = process.env.SAVED_SEARCH_CRON || '0 7 * * *';
+
+async function processSavedSearches() {
+  return savedSearchService.runAll();
+}
+
+export const savedSearchWorker = new Worker(
+  'saved-searches',
+  processSavedSearches,
+  {
+    connection: redisConnection,
+    concurrency: 1,
+  }
+);
+
+savedSearchWorker.on('completed', (job) => {
+  console.log(`✅ Saved search job ${job.id} completed`);
+});
+
+savedSearchWorker.on('failed', (job, err) => {
+  console.error(`❌ Saved search job ${job?.id} failed with error:`, err.message);
+});
+
+// Upserting keeps a single schedule however many instances start
+savedSearchQueue
+  .upsertJobScheduler(
+    'daily-saved-searches',
+    { pattern: SAVED_SEARCH_SCHEDULE, tz: 'UTC' },
+    { name: 'run-saved-searches' },
+  )
+  .then(() => console.log(`👷 Saved searches scheduled (${SAVED_SEARCH_SCHEDULE} UTC)`))
+  .catch((error) => console.error('❌ Failed to schedule saved searches:', error.message));
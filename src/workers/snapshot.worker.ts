@@ -0,0 +1,40 @@
+// src/workers/snapshot.worker.ts
+import { Worker } from 'bullmq';
+import { redisConnection } from '../config/redis';
+import { channelSnapshotQueue } from '../config/queue';
+import { watchlistService } from '../services/watchlist.service';
+
+// Once a day by default (cron, UTC)
+const SNAPSHOT_SCHEDULE = process.env.CHANNEL_SNAPSHOT_CRON || '0 6 * * *';
+
+async function processChannelSnapshots() {
+  const count = await watchlistService.snapshotAll();
+  return { channels: count };
+}
+
+export const channelSnapshotWorker = new Worker(
+  'channel-snapshots',
+  processChannelSnapshots,
+  {
+    connection: redisConnection,
+    concurrency: 1,
+  }
+);
+
+channelSnapshotWorker.on('completed', (job, result) => {
+  console.log(`✅ Channel snapshot job ${job.id} completed (${result?.channels ?? 0} channels)`);
+});
+
+channelSnapshotWorker.on('failed', (job, err) => {
+  console.error(`❌ Channel snapshot job ${job?.id} failed with error:`, err.message);
+});
+
+// Upserting keeps a single schedule however many instances start
+channelSnapshotQueue
+  .upsertJobScheduler(
+    'daily-channel-snapshots',
+    { pattern: SNAPSHOT_SCHEDULE, tz: 'UTC' },
+    { name: 'snapshot-watched-channels' },
+  )
+  .then(() => console.log(`👷 Channel snapshots scheduled (${SNAPSHOT_SCHEDULE} UTC)`))
+  .catch((error) => console.error('❌ Failed to schedule channel snapshots:', error.message));
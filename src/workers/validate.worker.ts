@@ -0,0 +1,92 @@
+// src/workers/validate.worker.ts
+import { Worker, Job } from 'bullmq';
+import { redisConnection } from '../config/redis';
+import type { IdeaValidationJobData } from '../config/queue';
+import { validateIdeaService } from '../services/validate.service';
+import { historyService } from '../services/history.service';
+import { JobEventWriter, abortWhenAbandoned } from '../utils/jobEvents';
+import { commitQuota, releaseQuota } from '../utils/quotaReservation';
+
+async function processIdeaValidation(job: Job<IdeaValidationJobData>) {
+  const { jobId, idea, targetAudience, goal, userId, reservationId } = job.data;
+  const streamWriter = new JobEventWriter(jobId);
+
+  // Stop spending OpenAI and YouTube quota once every client has gone away
+  const controller = new AbortController();
+  const stopWatching = abortWhenAbandoned(jobId, controller);
+
+  try {
+    streamWriter.log(`Starting validation for: "${idea}"`, 'info');
+
+    const result = await validateIdeaService(
+      { idea, targetAudience, goal },
+      streamWriter,
+      controller.signal,
+    );
+
+    await commitQuota(reservationId);
+
+    if (userId) {
+      // Validation reports aren't stored elsewhere, so keep a snapshot
+      await historyService.record({
+        userId,
+        tool: 'idea-validator',
+        inputs: { idea, targetAudience, goal },
+        resultType: 'inline',
+        result,
+      });
+    }
+
+    streamWriter.final({
+      success: true,
+      data: result,
+    });
+
+    console.log(`✅ Validation ${jobId} completed successfully`);
+
+    return result;
+  } catch (error: any) {
+    if (controller.signal.aborted) {
+      error = controller.signal.reason;
+      console.log(`🛑 Validation ${jobId} aborted: ${error.message}`);
+    } else {
+      console.error(`❌ Validation ${jobId} failed:`, error.message);
+    }
+
+    // Failed validations don't count against the daily limit
+    await releaseQuota(reservationId);
+
+    streamWriter.log(`Error: ${error.message}`, 'error');
+    streamWriter.final({
+      success: false,
+      error: error.message,
+    });
+
+    throw error;
+  } finally {
+    stopWatching();
+    streamWriter.end();
+    await streamWriter.flush();
+  }
+}
+
+// Each validation runs four agents in parallel, so keep concurrency low
+export const ideaValidationWorker = new Worker(
+  'idea-validation',
+  processIdeaValidation,
+  {
+    connection: redisConnection,
+    concurrency: 3,
+  }
+);
+
+// Worker event handlers
+ideaValidationWorker.on('failed', (job, err) => {
+  console.error(`❌ Validation job ${job?.id} failed with error:`, err.message);
+});
+
+ideaValidationWorker.on('active', (job) => {
+  console.log(`🔄 Validation job ${job.id} is now active`);
+});
+
+console.log('👷 Idea validation worker started with concurrency: 3');
@@ -1,15 +1,20 @@
 // src/workers/video.worker.ts
 import { Worker, Job } from 'bullmq';
 import { redisConnection } from '../config/redis';
-import type { VideoAnalysisJobData } from '../config/queue';
+import { saveAnalysis } from '../config/queue';
+import type { VideoAnalysisJobData, VideoAnalysisResult } from '../config/queue';
 import youtubeService from '../services/youtube.service';
 import { executeAnalysisWorkflow } from '../services/sentiment.service';
 import { socketService } from '../services/socket.service';
+import { JobCancelledError, throwIfCancelled } from '../utils/jobCancellation';
+import { commitQuota, releaseQuota } from '../utils/quotaReservation';
 
 async function processVideoAnalysis(job: Job<VideoAnalysisJobData>) {
-  const { jobId, videoId, videoUrl } = job.data;
+  const { jobId, videoId, videoUrl, maxComments, includeReplies } = job.data;
   
   try {
+    await saveAnalysis(job.data, { status: 'processing' });
+
     // Emit: Job started
     socketService.emitProgress({
       jobId,
@@ -34,14 +39,18 @@ async function processVideoAnalysis(job: Job<VideoAnalysisJobData>) {
       timestamp: Date.now(),
     });    
     const [commentsResult, transcriptResult] = await Promise.allSettled([
-      youtubeService.fetchAllComments(videoId),
+      youtubeService.fetchAllComments(videoId, { maxComments, includeReplies }),
       youtubeService.fetchTranscript(videoId),
     ]);
     
     // Handle comments result
     let allComments: any[] = [];
     if (commentsResult.status === 'fulfilled') {
-      allComments = commentsResult.value;
+      // Keep the most relevant comments within the requested budget
+      allComments = youtubeService.filterTopComments(
+        commentsResult.value,
+        maxComments,
+      );
       console.log(`✅ Comments fetched: ${allComments.length} total`);
       
       socketService.emitProgress({
@@ -106,6 +115,9 @@ async function processVideoAnalysis(job: Job<VideoAnalysisJobData>) {
       });
     }
     
+    // Don't start the analysis if the user cancelled while we were fetching
+    await throwIfCancelled(jobId);
+
     // Validate comments
     if (allComments.length === 0) {
       socketService.emitError({
@@ -140,6 +152,17 @@ async function processVideoAnalysis(job: Job<VideoAnalysisJobData>) {
       jobId // Pass jobId for progress tracking
     );
     
+    const analysis = {
+      jobId,
+      videoId,
+      status: 'completed',
+      ...result,
+    } as VideoAnalysisResult;
+
+    // Persist the full report before announcing completion
+    await saveAnalysis(job.data, { ...analysis, completedAt: new Date() });
+    await commitQuota(job.data.reservationId);
+
     await job.updateProgress(100);
     
     socketService.emitProgress({
@@ -152,25 +175,37 @@ async function processVideoAnalysis(job: Job<VideoAnalysisJobData>) {
     });
     
     // Emit final result
-    socketService.emitCompletion(jobId, {
-      jobId,
-      videoId,
-      status: 'completed',
-      ...result,
-    });
+    socketService.emitCompletion(jobId, analysis);
     
     console.log(`✅ Job ${jobId} completed successfully`);
     
-    return {
-      jobId,
-      videoId,
-      status: 'completed',
-      ...result,
-    };
+    return analysis;
     
   } catch (error: any) {
+    // The user got no report, so give the quota slot back
+    await releaseQuota(job.data.reservationId);
+
+    if (error instanceof JobCancelledError) {
+      console.log(`🛑 Job ${jobId} cancelled`);
+
+      await saveAnalysis(job.data, { status: 'cancelled' });
+
+      socketService.emitProgress({
+        jobId,
+        videoId,
+        stage: 'cancelled',
+        message: 'Analysis cancelled',
+        percentage: 0,
+        timestamp: Date.now(),
+      });
+
+      throw error;
+    }
+
     console.error(`❌ Job ${jobId} failed:`, error.message);
     
+    await saveAnalysis(job.data, { status: 'failed', error: error.message });
+
     socketService.emitError({
       jobId,
       error: error.message,